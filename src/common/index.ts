@@ -2,3 +2,4 @@ export * from "./classes";
 export * from "./typify";
 export * from "./logger";
 export * from "./format";
+export * from "./vlq";
@@ -71,17 +71,27 @@ export class Logger {
 	}
 
 	/**
-	 * Logs an error message and throws an error.
+	 * Logs an error message without throwing.
 	 *
-	 * @param description The description of the debug message.
+	 * @param description The description of the error message.
 	 * @param messages The error messages to log.
 	 */
-	public throw(description?: string, ...messages: unknown[]): void {
+	public error(description?: string, ...messages: unknown[]): void {
 		this.log({
 			header: { texts: [this.PREFIX, this.FROM, "ERROR"], style: ANSICodes.BgRed },
 			description: description?.split(/\n/g) ?? [],
 			body: messages.map(String),
 		});
+	}
+
+	/**
+	 * Logs an error message and throws an error.
+	 *
+	 * @param description The description of the debug message.
+	 * @param messages The error messages to log.
+	 */
+	public throw(description?: string, ...messages: unknown[]): void {
+		this.error(description, ...messages);
 
 		throw new Error(messages.join(" "));
 	}
@@ -0,0 +1,28 @@
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Encodes an integer as a Base64 VLQ, as used by the mappings of source maps.
+ *
+ * @param value The integer to encode.
+ * @returns The encoded value.
+ *
+ * @example
+ * vlq(0);  // "A"
+ * vlq(-1); // "D"
+ * vlq(16); // "gB"
+ */
+export function vlq(value: number): string {
+	// The sign is stored in the least significant bit.
+	let rest = value < 0 ? (-value << 1) | 1 : value << 1;
+	let encoded = "";
+
+	do {
+		// Each digit holds 5 bits, the 6th one tells if more digits follow.
+		let digit = rest & 0b11111;
+		rest >>>= 5;
+		if (rest > 0) digit |= 0b100000;
+		encoded += BASE64[digit];
+	} while (rest > 0);
+
+	return encoded;
+}
@@ -1,5 +1,9 @@
 import type { BaseTranspiler } from "./base.transpiler";
+import { DiagnosticCode, Diagnostics, type Range, locate } from "./diagnostic";
+import type { Rule } from "./grammar";
+import type { Lexer } from "./lexer";
 import type { Node } from "./node";
+import { type Parameter, convert } from "./signature";
 import type { Token } from "./token";
 
 /**
@@ -22,6 +26,9 @@ export enum LexicalFlags {
 
 /**
  * Represents a set of patterns used for matching and manipulating strings.
+ *
+ * The `opener`, `inside` and `closer` patterns are matched at the current position of the text
+ * after the foremost match, so they can span several characters (e.g. `[[` and `]]`).
  */
 export interface Patterns {
 	/**
@@ -35,7 +42,10 @@ export interface Patterns {
 	readonly opener?: RegExp;
 
 	/**
-	 * An optional pattern used for matching the beginning of parameters.
+	 * An optional pattern used for matching the text allowed inside the parameters.
+	 *
+	 * Whatever it matches is consumed at once, so it should match a single unit of text
+	 * (such as a character or an escape sequence) rather than a run of them.
 	 */
 	readonly inside?: RegExp;
 
@@ -43,6 +53,18 @@ export interface Patterns {
 	 * An optional pattern used for matching the closing of parameters.
 	 */
 	readonly closer?: RegExp;
+
+	/**
+	 * The opening and closing quotes of the string literals inside the parameters.
+	 *
+	 * The text between them is kept as is, without looking for openers, closers or delimiters.
+	 */
+	readonly quotes?: (readonly [opener: string, closer: string])[];
+
+	/**
+	 * The escape character, which makes the character after it be kept as is.
+	 */
+	readonly escape?: string;
 }
 
 /**
@@ -60,6 +82,84 @@ export interface Eaters {
 	readonly after?: string[];
 }
 
+/**
+ * Represents the lexer modes a competence belongs to, and how it changes them when matched.
+ *
+ * The lexer keeps a stack of modes, and only the competences of the mode on top of it are
+ * tried, so strings, comments or embedded blocks can have their own set of tokens.
+ */
+export interface Modes {
+	/**
+	 * The modes where the competence is active. Defaults to the lexer's default mode.
+	 */
+	readonly within?: string[];
+
+	/**
+	 * The mode entered after the competence is matched.
+	 */
+	readonly push?: string;
+
+	/**
+	 * Whether the current mode is left after the competence is matched.
+	 *
+	 * When combined with `push`, the current mode is left before entering the new one.
+	 */
+	readonly pop?: boolean;
+}
+
+/**
+ * Represents the contexts a competence is valid in, and those it opens.
+ *
+ * The contexts of a token are the identifiers of the tokens it is nested in, the contexts
+ * they open and the lexer modes the token was matched in.
+ */
+export interface Contexts {
+	/**
+	 * The contexts where the competence is valid, such as `["loop"]` for `break`. Defaults to anywhere.
+	 */
+	readonly within?: string[];
+
+	/**
+	 * The contexts opened for the tokens nested in the competence's tokens, such as `["loop"]` for `while`.
+	 */
+	readonly opens?: string[];
+}
+
+/**
+ * Represents how the inside of the tokens of a competence is tokenized into child tokens.
+ *
+ * @template Transpiler The type of the transpiler.
+ */
+export interface Nesting<Transpiler extends BaseTranspiler> {
+	/**
+	 * The lexer tokenizing the inside. Defaults to the lexer of the transpiler.
+	 */
+	readonly lexer?: Lexer<Transpiler>;
+
+	/**
+	 * The mode the inside is tokenized in. Defaults to the lexer's default mode.
+	 */
+	readonly mode?: string;
+
+	/**
+	 * The delimiter splitting the inside into arguments, if any.
+	 */
+	readonly delimiter?: string;
+}
+
+/**
+ * Represents the child tokens of the inside of a token.
+ *
+ * @template Transpiler The type of the transpiler.
+ */
+export interface Nested<Transpiler extends BaseTranspiler> {
+	/** The tokens of the whole inside, in order. */
+	readonly children: Token<Transpiler>[];
+
+	/** The tokens of each argument of the inside, if the nesting has a delimiter. */
+	readonly arguments?: Token<Transpiler>[][];
+}
+
 /**
  * Represents a base competence class.
  *
@@ -78,11 +178,52 @@ export abstract class BaseCompetence<Transpiler extends BaseTranspiler> {
 	/** The eaters used by the competence. */
 	public readonly eaters?: Eaters;
 
+	/**
+	 * The rule the tokens after the competence must follow, built with `sequence`, `choice`,
+	 * `repeat`, `optional` and `label`.
+	 *
+	 * The tokens that follow it are consumed, and their parse tree is set as the `production`
+	 * of the token. It is matched after the `after` eaters.
+	 */
+	public readonly grammar?: Rule;
+
 	/**
 	 * The flags that control the lexical analysis behavior.
 	 */
 	public readonly flags?: LexicalFlags;
 
+	/**
+	 * The priority of the competence when several of them match the same text.
+	 *
+	 * Competences with a higher priority are tried first (default is `0`), so keywords can
+	 * take precedence over identifiers regardless of the declaration order.
+	 */
+	public readonly priority?: number;
+
+	/** The lexer modes of the competence. */
+	public readonly modes?: Modes;
+
+	/**
+	 * How the inside of the tokens is tokenized into child tokens, if it is.
+	 *
+	 * The child tokens are available as the `children` and `arguments` of the tokens.
+	 */
+	public readonly nesting?: Nesting<Transpiler>;
+
+	/**
+	 * The contexts the competence is valid in, and those it opens.
+	 *
+	 * Tokens outside the contexts they are valid in are reported by the transpiler when parsing.
+	 */
+	public readonly contexts?: Contexts;
+
+	/**
+	 * The parameters of the inside of the tokens, whose arguments are converted by `extract`.
+	 *
+	 * The arguments are split by the delimiter of the `nesting`, or `";"` by default.
+	 */
+	public readonly signature?: readonly Parameter[];
+
 	/**
 	 * Creates a new instance of the BaseCompetence class.
 	 *
@@ -99,6 +240,142 @@ export abstract class BaseCompetence<Transpiler extends BaseTranspiler> {
 	 */
 	abstract resolve(token: Token<Transpiler>): Node<string, unknown>;
 
+	/**
+	 * Tokenizes the inside of a token into child tokens, as configured by `nesting`.
+	 *
+	 * The child tokens are located in the whole source through the position of the inside, so
+	 * their ranges and the diagnostics reported while tokenizing them are absolute. The
+	 * diagnostics are printed with the whole source too, so their frames show the right lines.
+	 *
+	 * @param token The token whose inside is tokenized.
+	 * @returns The child tokens, or `undefined` if the competence does not nest or the token has no inside.
+	 */
+	public nest(token: Token<Transpiler>): Nested<Transpiler> | undefined {
+		const { inside, insideStart } = token;
+		if (!this.nesting || inside === undefined || insideStart === undefined) return undefined;
+
+		const { lexer = this.transpiler.lexer, mode, delimiter } = this.nesting;
+		const source = token.match.input ?? "";
+		const origin = locate(source, insideStart, token.origin, token.codePoints);
+
+		// The diagnostics are collected apart, so they are reported with the whole source instead of the inside.
+		const diagnostics = lexer.diagnostics;
+		const pending = new Diagnostics();
+		lexer.diagnostics = pending;
+		let children: Token<Transpiler>[];
+		try {
+			children = [...lexer.tokenize(inside, undefined, { file: token.file, mode, origin })];
+		} finally {
+			lexer.diagnostics = diagnostics;
+		}
+		for (const diagnostic of pending) diagnostics.report(diagnostic, source);
+
+		if (delimiter === undefined) return { children };
+
+		// The tokens of an argument are those starting within it.
+		const segments = [...this.delimit(inside, delimiter, token)];
+		return {
+			children,
+			arguments: segments.map(([start, end]) =>
+				children.filter((child) => child.start >= start && child.start < end),
+			),
+		};
+	}
+
+	/**
+	 * Extracts the arguments of the inside of a token, as declared by the `signature`.
+	 *
+	 * The arguments are trimmed and converted into the types of their parameters. Missing, extra
+	 * and invalid arguments are reported to the transpiler's diagnostics, at their location.
+	 *
+	 * @template Values The type of the converted arguments, usually `ArgumentsOf<typeof signature>`.
+	 * @param token The token whose inside holds the arguments.
+	 * @returns The converted arguments by parameter name, or `undefined` if any is invalid.
+	 */
+	protected extract<Values = Record<string, unknown>>(
+		token: Token<Transpiler>,
+	): Values | undefined {
+		const inside = token.inside ?? "";
+		const offset = token.insideStart;
+		const input = token.match.input;
+
+		// Reports a problem with the arguments, located in the inside when possible.
+		let valid = true;
+		const report = (code: DiagnosticCode, message: string, start?: number, end = start) => {
+			const range: Range =
+				offset === undefined || input === undefined || start === undefined || end === undefined
+					? token.range
+					: {
+							start: locate(input, offset + start, token.origin, token.codePoints),
+							end: locate(input, offset + end, token.origin, token.codePoints),
+							file: token.file,
+						};
+			this.transpiler.diagnostics.error(code, message, range, input);
+			valid = false;
+		};
+
+		// The arguments without the whitespace around them.
+		const segments = [...this.delimit(inside, this.nesting?.delimiter ?? ";", token)].map(
+			([start, end]) => {
+				const text = inside.slice(start, end).trim();
+				const at = text === "" ? start : inside.indexOf(text, start);
+				return { text, start: at, end: at + text.length };
+			},
+		);
+
+		// Converts an argument, reporting it if it is missing or not of the type.
+		const argument = (parameter: Parameter, segment?: (typeof segments)[number]): unknown => {
+			if (!segment || segment.text === "") {
+				if (!parameter.optional && !("default" in parameter)) {
+					report(
+						DiagnosticCode.ArgumentCount,
+						`Missing argument "${parameter.name}" of "${this.identifier}".`,
+						segment?.start ?? inside.length,
+					);
+				}
+				return parameter.default;
+			}
+
+			const value = convert(parameter.type, segment.text);
+			if (value === undefined) {
+				report(
+					DiagnosticCode.ArgumentType,
+					`Argument "${parameter.name}" must be a ${parameter.type}, got "${segment.text}".`,
+					segment.start,
+					segment.end,
+				);
+			}
+			return value;
+		};
+
+		const values: Record<string, unknown> = {};
+		let index = 0;
+
+		for (const parameter of this.signature ?? []) {
+			if (parameter.rest) {
+				values[parameter.name] = segments
+					.slice(index)
+					.map((segment) => argument(parameter, segment));
+				index = segments.length;
+			} else {
+				values[parameter.name] = argument(parameter, segments[index++]);
+			}
+		}
+
+		// Check if there are more arguments than parameters.
+		if (index < segments.length) {
+			const extra = segments[index];
+			report(
+				DiagnosticCode.ArgumentCount,
+				`Expected at most ${index} arguments for "${this.identifier}", got ${segments.length}.`,
+				extra.start,
+				segments[segments.length - 1].end,
+			);
+		}
+
+		return valid ? (values as Values) : undefined;
+	}
+
 	/**
 	 * Splits a string by a specified delimiter while respecting nested structures defined by opener and closer patterns.
 	 *
@@ -106,11 +383,15 @@ export abstract class BaseCompetence<Transpiler extends BaseTranspiler> {
 	 * structures by utilizing the provided patterns for opener and closer. If an opener is found, the method
 	 * increases the depth count, and if a closer is encountered, it decreases the depth count. The method
 	 * only splits the string at the delimiter when the depth is zero, ensuring that nested structures remain
-	 * intact.
+	 * intact. Quoted and escaped text, as configured by the `quotes` and `escape` patterns, is kept as is.
+	 *
+	 * Unbalanced closers, unclosed openers and unterminated quotes are reported to the transpiler's
+	 * diagnostics, with their range when the token the string comes from is given.
 	 *
 	 * @param inside The string to split. This string can contain nested structures that the method will respect.
 	 * @param delimiter The delimiter to use for splitting the string. The default value is `";"`.
 	 *                  It can be overridden by passing a different delimiter.
+	 * @param token The token whose inside is being split, used to locate the reported diagnostics.
 	 * @returns A generator of the split strings. Each call to the generator yields the next segment of the
 	 *          string that was split based on the provided delimiter, while honoring nested structures.
 	 *
@@ -123,31 +404,161 @@ export abstract class BaseCompetence<Transpiler extends BaseTranspiler> {
 	 *     console.log(segment); // Outputs: "item1", "item2{nested1;nested2}", "item3"
 	 * }
 	 */
-	protected *splitByDelimiter(inside: string, delimiter = ";"): Generator<string> {
-		let current = "";
+	protected *splitByDelimiter(
+		inside: string,
+		delimiter = ";",
+		token?: Token<Transpiler>,
+	): Generator<string> {
+		for (const [start, end] of this.delimit(inside, delimiter, token)) {
+			yield inside.slice(start, end);
+		}
+	}
+
+	/**
+	 * Finds the segments of a string between a delimiter, as `splitByDelimiter` splits them.
+	 *
+	 * @param inside The string to split.
+	 * @param delimiter The delimiter to use for splitting the string.
+	 * @param token The token whose inside is being split, used to locate the reported diagnostics.
+	 * @returns A generator of the start and end positions of the segments.
+	 */
+	protected *delimit(
+		inside: string,
+		delimiter: string,
+		token?: Token<Transpiler>,
+	): Generator<[start: number, end: number]> {
+		const { opener, closer } = this.patterns;
+
+		// Reports an unbalanced structure found at the given position of the string.
+		const report = (message: string, position: number, length: number) => {
+			const offset = token?.insideStart;
+			const input = token?.match.input;
+			this.transpiler.diagnostics.error(
+				DiagnosticCode.UnbalancedDelimiter,
+				message,
+				offset === undefined || input === undefined
+					? undefined
+					: {
+							start: locate(input, offset + position, token?.origin, token?.codePoints),
+							end: locate(input, offset + position + length, token?.origin, token?.codePoints),
+							file: token?.file,
+						},
+				input,
+			);
+		};
+
+		// The positions of the openers that have not been closed yet.
+		const open: number[] = [];
+
+		let start = 0;
 		let index = 0;
-		let depth = 0;
 
 		while (index < inside.length) {
-			const char = inside.charAt(index++);
-			if (char === delimiter && depth === 0) {
-				yield current;
-				current = "";
-			} else if (this.patterns.opener?.test(char)) {
-				current += char;
-				depth++;
-			} else if (this.patterns.closer?.test(char)) {
-				current += char;
-				depth--;
-			} else {
-				current += char;
+			const literal = skipLiteral(this.patterns, inside, index);
+			if (literal) {
+				if (!literal.closed) {
+					report("Unterminated string.", index, inside.length - index);
+				}
+				index = literal.end;
+				continue;
+			}
+
+			if (open.length === 0 && inside.startsWith(delimiter, index)) {
+				yield [start, index];
+				index += delimiter.length;
+				start = index;
+				continue;
+			}
+
+			const opened = scan(opener, inside, index);
+			if (opened !== undefined) {
+				open.push(index);
+				index += opened.length;
+				continue;
 			}
+
+			const closed = scan(closer, inside, index);
+			if (closed !== undefined) {
+				if (open.pop() === undefined) {
+					report(`Unexpected "${closed}" without an opener.`, index, closed.length);
+				}
+				index += closed.length;
+				continue;
+			}
+
+			index++;
 		}
 
-		if (current) {
-			yield current;
+		if (start < inside.length) {
+			yield [start, inside.length];
 		}
 
-		// TODO: Error handling for unbalanced patterns can be added here.
+		for (const position of open) {
+			report("Unclosed opener.", position, scan(opener, inside, position)?.length ?? 1);
+		}
 	}
 }
+
+/** The sticky versions of the patterns, to match them at a given position. */
+const stickies = new WeakMap<RegExp, RegExp>();
+
+/**
+ * Matches a pattern at the given position of the input.
+ *
+ * @param pattern The pattern to match.
+ * @param input The input string.
+ * @param position The position where the pattern must match.
+ * @returns The matched text, or `undefined` if the pattern does not match there or matches nothing.
+ */
+export function scan(
+	pattern: RegExp | undefined,
+	input: string,
+	position: number,
+): string | undefined {
+	if (!pattern) return undefined;
+
+	let sticky = stickies.get(pattern);
+	if (!sticky) {
+		sticky = new RegExp(pattern.source, `${pattern.flags.replace(/[gy]/g, "")}y`);
+		stickies.set(pattern, sticky);
+	}
+
+	sticky.lastIndex = position;
+	return sticky.exec(input)?.[0] || undefined;
+}
+
+/**
+ * Finds the quoted or escaped text that starts at the given position of the input.
+ *
+ * @param patterns The patterns defining the quotes and the escape character.
+ * @param input The input string.
+ * @param position The position where the text must start.
+ * @returns The end of the text and whether it was terminated, or `undefined` if there is no such text.
+ */
+export function skipLiteral(
+	{ quotes = [], escape: escaper }: Patterns,
+	input: string,
+	position: number,
+): { end: number; closed: boolean } | undefined {
+	if (escaper && input.startsWith(escaper, position)) {
+		return { end: Math.min(position + escaper.length + 1, input.length), closed: true };
+	}
+
+	for (const [opener, closer] of quotes) {
+		if (!input.startsWith(opener, position)) continue;
+
+		for (let index = position + opener.length; index < input.length; ) {
+			if (escaper && input.startsWith(escaper, index)) {
+				index += escaper.length + 1;
+			} else if (input.startsWith(closer, index)) {
+				return { end: index + closer.length, closed: true };
+			} else {
+				index++;
+			}
+		}
+
+		return { end: input.length, closed: false };
+	}
+
+	return undefined;
+}
@@ -1,12 +1,27 @@
 import { Logger } from "@common/logger";
 import { typify } from "@common/typify";
 import type { BaseCompetence } from "./base.competence";
-import { Lexer } from "./lexer";
-import type { Node } from "./node";
+import { Diagnostic, DiagnosticCode, DiagnosticError, Diagnostics } from "./diagnostic";
+import { ExpressionParser } from "./expression.parser";
+import { type Failure, type Rule, TokenStream } from "./grammar";
+import { Lexer, LexerOptions } from "./lexer";
+import { ErrorNode, type Node } from "./node";
 import { Registry } from "./registry";
-import type { Schema } from "./schema";
+import { Schema } from "./schema";
+import { TextCompetence } from "./text.competence";
 import type { Token } from "./token";
 
+/**
+ * Represents the result of a transpilation.
+ */
+export interface Transpilation {
+	/** The transpiled code, or `undefined` if the transpilation was aborted. */
+	readonly output?: string;
+
+	/** The diagnostics reported while transpiling. */
+	readonly diagnostics: Diagnostic[];
+}
+
 /**
  * The base class for all transpilers.
  */
@@ -20,25 +35,71 @@ export abstract class BaseTranspiler {
 	/** The lexer instance. */
 	public readonly lexer: Lexer<this>;
 
+	/** The bag where the problems found while transpiling are reported. */
+	public readonly diagnostics: Diagnostics;
+
+	/**
+	 * The parser of infix expressions, where competences register their operators.
+	 *
+	 * It reports to the diagnostics bag of the transpiler.
+	 */
+	public readonly expressions: ExpressionParser;
+
+	/**
+	 * Whether synthesis continues after a token fails, producing an `ErrorNode` in its place.
+	 */
+	public readonly recovery: boolean;
+
+	/** The signal to stop the current compilation with, if any. */
+	protected signal?: AbortSignal;
+
+	/** Whether a compilation is running, which clears the diagnostics bag itself. */
+	private compiling = false;
+
 	/**
 	 * Creates a new instance of the base transpiler.
 	 *
 	 * @param schemas The schemas to register.
 	 * @param logger The logger instance.
 	 * @param lexer The lexer instance.
+	 * @param recovery Whether synthesis continues after a token fails (default is `false`).
 	 */
 	constructor({
 		schemas,
 		logger = new Logger({ from: this.constructor.name }),
 		lexer = new Lexer(),
+		recovery = false,
 	}: {
 		schemas?: Record<string, Schema<unknown>> | null;
 		logger?: Logger;
 		lexer?: Lexer<BaseTranspiler>;
+		recovery?: boolean;
 	} = {}) {
 		this.registry = new Registry(schemas);
 		this.logger = logger;
 		this.lexer = lexer as unknown as Lexer<this>;
+		this.diagnostics = new Diagnostics({ logger });
+		this.expressions = new ExpressionParser({ diagnostics: this.diagnostics });
+		this.recovery = recovery;
+
+		// Share the bag with the lexer, so its diagnostics are collected too.
+		this.lexer.diagnostics = this.diagnostics;
+
+		// Error nodes must pass validation, since they are yielded alongside the others, and be revived with
+		// their diagnostic.
+		if (recovery && !this.registry.has("error")) {
+			this.registry
+				.set("error", new Schema("error", { source: "string", diagnostic: Diagnostic }))
+				.bind("error", ErrorNode);
+		}
+
+		// Text nodes too, when the lexer emits the gaps between matches.
+		if (this.lexer.options & LexerOptions.EmitText) {
+			this.lexer.text ??= new TextCompetence(this);
+			if (!this.registry.has("text")) {
+				this.registry.set("text", new Schema("text", "string"));
+			}
+		}
 	}
 
 	/**
@@ -48,6 +109,38 @@ export abstract class BaseTranspiler {
 	 */
 	abstract transpile(source: string): string;
 
+	/**
+	 * Transpiles the source code, collecting the diagnostics reported along the way.
+	 *
+	 * Errors thrown while transpiling are reported as diagnostics instead of being propagated.
+	 * The signal stops the tokenization and the synthesis, which is reported as an error too.
+	 *
+	 * @param source The source code to transpile.
+	 * @param signal The signal to stop the transpilation with.
+	 * @returns The transpiled code alongside the reported diagnostics.
+	 */
+	public compile(source: string, { signal }: { signal?: AbortSignal } = {}): Transpilation {
+		this.diagnostics.clear();
+		this.signal = signal;
+		this.compiling = true;
+
+		let output: string | undefined;
+		try {
+			output = this.transpile(source);
+		} catch (error) {
+			if (error instanceof DiagnosticError) {
+				this.diagnostics.report(error.diagnostic, source);
+			} else {
+				this.diagnostics.error(DiagnosticCode.Internal, (<Error>error).message);
+			}
+		} finally {
+			this.signal = undefined;
+			this.compiling = false;
+		}
+
+		return { output, diagnostics: this.diagnostics.toArray() };
+	}
+
 	/**
 	 * Declares one or more competences and adds them to the lexer's competence map.
 	 *
@@ -67,6 +160,8 @@ export abstract class BaseTranspiler {
 			// Set the competence
 			this.lexer.competences.set(competence.identifier, competence);
 		}
+
+		this.lexer.invalidate();
 	}
 
 	/**
@@ -85,37 +180,67 @@ export abstract class BaseTranspiler {
 			// Remove the competence
 			this.lexer.competences.delete(identifier);
 		}
+
+		this.lexer.invalidate();
 	}
 
 	/**
 	 * Synthesizes a sequence of tokens into a generator of nodes.
 	 *
+	 * The first token that fails is reported as a diagnostic. In recovery mode, an `ErrorNode`
+	 * is yielded in its place and synthesis continues; otherwise, synthesis stops.
+	 *
 	 * @param tokens The tokens to synthesize.
 	 * @returns A generator that yields nodes.
 	 */
 	public *synthesize(tokens: Iterable<Token<this>>): Generator<Node<string, unknown>> {
 		for (const token of tokens) {
-			try {
-				yield this.nodify(token);
-			} catch (error) {
-				this.logger.throw(
-					`Error processing "${token.total}" at Ln ${token.line}, Col ${token.column}`,
-					(<Error>error).stack,
+			if (this.signal?.aborted) {
+				this.diagnostics.error(
+					DiagnosticCode.Aborted,
+					"The synthesis was aborted.",
+					token.range,
+					token.match.input,
 				);
 				break;
 			}
+
+			let node: Node<string, unknown>;
+			try {
+				node = this.nodify(token);
+			} catch (error) {
+				const diagnostic =
+					error instanceof DiagnosticError
+						? this.diagnostics.report(error.diagnostic, token.match.input)
+						: this.diagnostics.error(
+								DiagnosticCode.SynthesisFailed,
+								`Error processing "${token.total}": ${(<Error>error).message}`,
+								token.range,
+								token.match.input,
+							);
+
+				if (!this.recovery) break;
+
+				node = new ErrorNode(token.total, diagnostic);
+				node.location = token.range;
+			}
+			yield node;
 		}
 	}
 
 	/**
 	 * Converts a token into a node.
 	 *
+	 * Unless the competence already located it, the node is located at the range of the token.
+	 *
 	 * @param token The token to convert.
 	 * @returns The converted node.
 	 * @throws Error if the converted node does not match the expected schema.
 	 */
 	public nodify(token: Token<this>): Node<string, unknown> {
 		const node = token.competence.resolve(token);
+		node.location ??= token.range;
+
 		if (this.registry.validate(node)) return node;
 
 		const expected = this.registry.get(node.type);
@@ -131,50 +256,77 @@ export abstract class BaseTranspiler {
 	/**
 	 * Tokenizes the input string and returns a tokens array.
 	 *
+	 * The diagnostics bag is cleared first, so it only holds the problems of this input, unless it
+	 * is called while compiling, where the bag holds the problems of the whole compilation.
+	 *
 	 * @param source The input string to be tokenized.
+	 * @param file The identifier of the source file, attached to the location of tokens and nodes.
 	 * @returns Tokens generated from the input string.
 	 */
-	public tokenize(source: string): Token<this>[] {
-		return this.parse(this.lexer.tokenize(source));
+	public tokenize(source: string, file?: string): Token<this>[] {
+		if (!this.compiling) this.diagnostics.clear();
+		return this.parse(this.lexer.tokenize(source, undefined, { file, signal: this.signal }));
 	}
 
+	/**
+	 * Consumes the tokens required by the eaters of each competence.
+	 *
+	 * Tokens that do not meet the expectations of an eater are reported as diagnostics
+	 * and kept in the result. The diagnostics bag is not cleared, since the tokens may already
+	 * have reported problems to it, so callers parsing tokens directly clear it themselves.
+	 *
+	 * @param tokens The tokens to parse.
+	 * @returns The tokens that have not been consumed by others.
+	 */
 	public parse(tokens: IterableIterator<Token<this>>): Token<this>[] {
 		const result: Token<this>[] = [];
-		let current = tokens.next();
+		const stream = new TokenStream(this._handleContexts(tokens));
+		let current = stream.next();
 
 		while (current.done === false) {
+			let pending: Token<this> | undefined;
+
 			if (current.value.competence.eaters) {
 				const { before, after } = current.value.competence.eaters;
 				if (before) {
 					this._handleBefore(before, result, current.value);
 				}
 				if (after) {
-					this._handleAfter(after, tokens, current.value);
+					pending = this._handleAfter(after, stream, current.value);
 				}
 			}
 
+			const { grammar } = current.value.competence;
+			if (grammar && !pending) {
+				this._handleGrammar(grammar, stream, current.value);
+			}
+
 			result.push(current.value);
-			current = tokens.next();
+			current = pending ? { done: false, value: pending } : stream.next();
 		}
 
 		return result;
 	}
 
+	/**
+	 * Consumes the tokens expected before the given token.
+	 *
+	 * @param before The identifiers of the expected competences.
+	 * @param result The tokens parsed so far.
+	 * @param token The token that consumes.
+	 */
 	protected _handleBefore(before: string[], result: Token<this>[], token: Token<this>) {
 		for (const expected of before) {
 			const prev = result.pop();
 
 			if (!prev) {
-				this.logger.throw(
-					`Illegal token {underline;italic:${token.total}} at Ln ${token.line}, Col ${token.column}.`,
-					token.match.input
-						?.split(/\n/g)
-						.slice(Math.max(0, token.line - 4), token.line)
-						.join("\n"),
-					// TODO: I don't really know if this would work.
-					`${" ".repeat(token.column - 1)}{italic:${"^".repeat(token.total.length)} Here!}`,
+				this.diagnostics.error(
+					DiagnosticCode.IllegalToken,
+					`Illegal token "${token.total}", expected "${expected}" before it.`,
+					token.range,
+					token.match.input,
 				);
-				break; // Unreachable
+				break;
 			}
 
 			if (prev.competence.identifier === expected) {
@@ -182,21 +334,42 @@ export abstract class BaseTranspiler {
 				continue;
 			}
 
-			this.logger.throw(`Unexpected token ${prev?.total}`);
+			// Give the token back, it belongs to the result.
+			result.push(prev);
+			this.diagnostics.error(
+				DiagnosticCode.UnexpectedToken,
+				`Unexpected token "${prev.total}", expected "${expected}".`,
+				prev.range,
+				prev.match.input,
+			);
+			break;
 		}
 	}
 
+	/**
+	 * Consumes the tokens expected after the given token.
+	 *
+	 * @param after The identifiers of the expected competences.
+	 * @param tokens The tokens that have not been parsed yet.
+	 * @param token The token that consumes.
+	 * @returns The token that did not meet the expectations, if any, so it can be parsed.
+	 */
 	protected _handleAfter(
 		after: string[],
-		tokens: IterableIterator<Token<this>>,
+		tokens: Iterator<Token<this>>,
 		token: Token<this>,
-	) {
+	): Token<this> | undefined {
 		for (const expected of after) {
 			const next = tokens.next();
 
 			if (next.done) {
-				this.logger.throw("Unexpected end of input!");
-				break; // Unreachable
+				this.diagnostics.error(
+					DiagnosticCode.UnexpectedEnd,
+					`Unexpected end of input, expected "${expected}" after "${token.total}".`,
+					token.range,
+					token.match.input,
+				);
+				break;
 			}
 
 			if (next.value.competence.identifier === expected) {
@@ -206,13 +379,98 @@ export abstract class BaseTranspiler {
 
 			const { value } = next;
 
-			this.logger.throw(
-				`Unexpected token {underline;italic:${value.total}} at Ln ${value.line}, Col ${value.column}.`,
-				value.match.input
-					?.split(/\n+/g)
-					.slice(Math.max(0, token.line - 4), token.line)
-					.join("\n"),
-				`${" ".repeat(value.column - 1)}{italic:${"^".repeat(value.total.length)} Here!}`,
+			this.diagnostics.error(
+				DiagnosticCode.UnexpectedToken,
+				`Unexpected token "${value.total}", expected "${expected}".`,
+				value.range,
+				value.match.input,
+			);
+			return value;
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Checks that the tokens are within the contexts their competences are valid in, as they are parsed.
+	 *
+	 * @param tokens The tokens to check.
+	 * @returns The same tokens.
+	 */
+	protected *_handleContexts(tokens: Iterable<Token<this>>): Generator<Token<this>> {
+		for (const token of tokens) {
+			this._handleContext(token, []);
+			yield token;
+		}
+	}
+
+	/**
+	 * Checks that a token and those nested in it are within the contexts their competences are valid in.
+	 *
+	 * @param token The token to check.
+	 * @param contexts The contexts opened by the tokens the token is nested in.
+	 */
+	protected _handleContext(token: Token<this>, contexts: readonly string[]) {
+		const { identifier, contexts: declared, nesting } = token.competence;
+		const within = declared?.within;
+
+		if (
+			within &&
+			!within.some((context) => contexts.includes(context) || token.stack?.includes(context))
+		) {
+			const expected = within.map((context) => `"${context}"`).join(" or ");
+			this.diagnostics.error(
+				DiagnosticCode.IllegalContext,
+				`Illegal token "${token.total}", expected it within ${expected}.`,
+				token.range,
+				token.match.input,
+			);
+		}
+
+		if (nesting) {
+			const nested = [...contexts, identifier, ...(declared?.opens ?? [])];
+			for (const child of token.children ?? []) {
+				this._handleContext(child, nested);
+			}
+		}
+	}
+
+	/**
+	 * Consumes the tokens that follow the grammar of the given token's competence.
+	 *
+	 * If they do not follow it, nothing is consumed and the farthest unexpected token is reported.
+	 *
+	 * @param grammar The rule the tokens must follow.
+	 * @param stream The tokens that have not been parsed yet.
+	 * @param token The token that consumes.
+	 */
+	protected _handleGrammar(grammar: Rule, stream: TokenStream<this>, token: Token<this>) {
+		const failure: Failure = { offset: -1, expected: new Set() };
+		const production = grammar.match(stream, 0, failure);
+
+		if (production) {
+			for (let i = 0; i < production.tokens.length; i++) stream.next();
+			token.production = production;
+			production.assign();
+			return;
+		}
+
+		const expected = [...failure.expected].map((identifier) => `"${identifier}"`).join(" or ");
+		const unexpected = stream.peek(Math.max(failure.offset, 0));
+
+		if (unexpected) {
+			this.diagnostics.error(
+				DiagnosticCode.UnexpectedToken,
+				`Unexpected token "${unexpected.total}", expected ${expected}.`,
+				unexpected.range,
+				unexpected.match.input,
+			);
+		} else {
+			this.diagnostics.error(
+				DiagnosticCode.UnexpectedEnd,
+				`Unexpected end of input, expected ${expected} after "${token.total}".`,
+				token.range,
+				token.match.input,
 			);
 		}
 	}
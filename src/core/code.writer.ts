@@ -0,0 +1,225 @@
+import type { Node } from "./node";
+import type { MapPosition, SourceMap } from "./source.map";
+
+/**
+ * Represents a writer of generated code, passed into the serialization of nodes.
+ *
+ * It keeps track of the indentation, so every line written within a block is indented, and of
+ * the position in the generated code, so the nodes written with `node` are mapped to their
+ * location in the source map, if it has one. The lines a node starts are mapped to it too,
+ * unless a node within it already is.
+ *
+ * @example
+ * class Block extends Node<"block", Node<string, unknown>[]> {
+ *     public override emit(writer: CodeWriter): void {
+ *         writer.write("{").block(() => {
+ *             for (const statement of this.value) writer.node(statement).newline();
+ *         }).write("}");
+ *     }
+ * }
+ */
+export class CodeWriter {
+	/** The string written once per indentation level at the start of the lines. */
+	public readonly indentation: string;
+
+	/** The source map the written nodes are mapped to, if any. */
+	public readonly map?: SourceMap;
+
+	/** The name of the source of the nodes whose location has no file. */
+	public readonly source?: string;
+
+	/** The code written so far. */
+	private readonly chunks: string[];
+
+	/** The current indentation level. */
+	private level = 0;
+
+	/** The one-based line of the current position. */
+	private line = 1;
+
+	/** The one-based column of the current position, without the pending indentation. */
+	private column = 1;
+
+	/** The mapped nodes being written, the innermost one being the last. */
+	private readonly nodes: Node<string, unknown>[] = [];
+
+	/** The last line where a mapping was added. */
+	private mapped = 0;
+
+	/**
+	 * Creates a new CodeWriter instance.
+	 *
+	 * @param options The options for configuring the writer.
+	 * @param options.indentation The string written once per indentation level (default is a tab).
+	 * @param options.map The source map the written nodes are mapped to.
+	 * @param options.source The name of the source of the nodes whose location has no file.
+	 */
+	constructor({
+		indentation = "\t",
+		map,
+		source,
+	}: { indentation?: string; map?: SourceMap; source?: string } = {}) {
+		this.indentation = indentation;
+		this.map = map;
+		this.source = source;
+		this.chunks = [];
+
+		if (map && source) map.addSource(source);
+	}
+
+	/**
+	 * Gets the position where the next character will be written, indentation included.
+	 */
+	public get position(): MapPosition {
+		if (this.column === 1) {
+			return { line: this.line, column: 1 + this.indentation.length * this.level };
+		}
+		return { line: this.line, column: this.column };
+	}
+
+	/**
+	 * Writes text, indenting the lines it starts. Empty lines are not indented.
+	 *
+	 * @param text The text to write.
+	 * @returns The writer, so calls can be chained.
+	 */
+	public write(text: string): this {
+		const lines = text.split("\n");
+
+		for (let index = 0; index < lines.length; index++) {
+			if (index > 0) {
+				this.chunks.push("\n");
+				this.line++;
+				this.column = 1;
+			}
+
+			const line = lines[index];
+			if (line === "") continue;
+
+			// Check if the line starts here, so it has to be indented first.
+			const starts = this.column === 1;
+			if (starts && this.level > 0) {
+				const indentation = this.indentation.repeat(this.level);
+				this.chunks.push(indentation);
+				this.column += indentation.length;
+			}
+
+			// Map the line to the node being written, unless a node was already mapped on it.
+			const innermost = this.nodes.at(-1);
+			if (starts && innermost && this.mapped !== this.line) this.mark(innermost);
+
+			this.chunks.push(line);
+			this.column += line.length;
+		}
+
+		return this;
+	}
+
+	/**
+	 * Ends the current line.
+	 *
+	 * @returns The writer, so calls can be chained.
+	 */
+	public newline(): this {
+		return this.write("\n");
+	}
+
+	/**
+	 * Increases the indentation level of the lines started from now on.
+	 *
+	 * @returns The writer, so calls can be chained.
+	 */
+	public indent(): this {
+		this.level++;
+		return this;
+	}
+
+	/**
+	 * Decreases the indentation level of the lines started from now on.
+	 *
+	 * @returns The writer, so calls can be chained.
+	 */
+	public dedent(): this {
+		this.level = Math.max(this.level - 1, 0);
+		return this;
+	}
+
+	/**
+	 * Writes an indented block on its own lines, ending the current line before and after it.
+	 *
+	 * @param body Writes the content of the block.
+	 * @returns The writer, so calls can be chained.
+	 */
+	public block(body: (writer: this) => void): this {
+		this.newline().indent();
+		body(this);
+		this.dedent();
+
+		// The content usually ends its last line already.
+		if (this.column !== 1) this.newline();
+		return this;
+	}
+
+	/**
+	 * Writes a node, mapping its position to the location of the node.
+	 *
+	 * @param node The node to write.
+	 * @returns The writer, so calls can be chained.
+	 */
+	public node(node: Node<string, unknown>): this {
+		const mapped = this.mark(node);
+		if (mapped) this.nodes.push(node);
+
+		node.emit(this);
+
+		if (mapped) this.nodes.pop();
+		return this;
+	}
+
+	/**
+	 * Writes several items with a separator between them.
+	 *
+	 * @param items The items to write.
+	 * @param separator The text written between the items.
+	 * @param each Writes an item (default writes the item as a node).
+	 * @returns The writer, so calls can be chained.
+	 */
+	public join<Item>(
+		items: Iterable<Item>,
+		separator: string,
+		each: (item: Item, writer: this) => void = (item) => this.node(item as Node<string, unknown>),
+	): this {
+		let first = true;
+		for (const item of items) {
+			if (!first) this.write(separator);
+			each(item, this);
+			first = false;
+		}
+		return this;
+	}
+
+	/**
+	 * Maps the current position to the location of a node, if there is a source map and it is located.
+	 *
+	 * @param node The node.
+	 * @returns `true` if the position was mapped.
+	 */
+	private mark(node: Node<string, unknown>): boolean {
+		const source = node.location?.file ?? this.source;
+		if (!this.map || !node.location || source === undefined) return false;
+
+		const { line, column } = node.location.start;
+		this.map.addMapping({ generated: this.position, original: { line, column }, source });
+		this.mapped = this.line;
+		return true;
+	}
+
+	/**
+	 * Gets the code written so far.
+	 *
+	 * @returns The code.
+	 */
+	public toString(): string {
+		return this.chunks.join("");
+	}
+}
@@ -0,0 +1,402 @@
+import type { Logger } from "@common/logger";
+import { LineIndex } from "./line.index";
+
+/**
+ * Represents the severity of a diagnostic.
+ */
+export enum DiagnosticSeverity {
+	/**
+	 * Something that prevents the source from being transpiled correctly.
+	 */
+	Error = 1,
+
+	/**
+	 * Something suspicious that does not prevent the transpilation.
+	 */
+	Warning = 2,
+
+	/**
+	 * Something worth knowing about the source.
+	 */
+	Information = 3,
+
+	/**
+	 * A suggestion, usually displayed subtly by editors.
+	 */
+	Hint = 4,
+}
+
+/**
+ * Represents the codes of the diagnostics reported by akore itself.
+ *
+ * Competences are free to report diagnostics with their own codes.
+ */
+export enum DiagnosticCode {
+	/** Text between two tokens that no competence matches. */
+	UnexpectedText = "unexpected-text",
+
+	/** A match of the lexer pattern that no competence claims. */
+	UnknownMatch = "unknown-match",
+
+	/** Text that is claimed by several competences with the same priority. */
+	AmbiguousMatch = "ambiguous-match",
+
+	/** A token that leaves the lexer mode the tokenization started in. */
+	UnbalancedMode = "unbalanced-mode",
+
+	/** A closer without an opener, an opener without a closer, or an unterminated quote. */
+	UnbalancedDelimiter = "unbalanced-delimiter",
+
+	/** A token that requires previous tokens, but there are none. */
+	IllegalToken = "illegal-token",
+
+	/** A token outside the contexts its competence is valid in. */
+	IllegalContext = "illegal-context",
+
+	/** A token that is not the one a competence expects. */
+	UnexpectedToken = "unexpected-token",
+
+	/** The input ended while a competence still expects tokens. */
+	UnexpectedEnd = "unexpected-end",
+
+	/** An input, a nesting, a number of tokens or a duration beyond the limits of the lexer. */
+	LimitExceeded = "limit-exceeded",
+
+	/** A token with fewer or more arguments than its competence's signature declares. */
+	ArgumentCount = "argument-count",
+
+	/** An argument that cannot be converted into the type its competence's signature declares. */
+	ArgumentType = "argument-type",
+
+	/** An operation stopped through its abort signal. */
+	Aborted = "aborted",
+
+	/** A token that could not be converted into a node. */
+	SynthesisFailed = "synthesis-failed",
+
+	/** An error that was not reported as a diagnostic. */
+	Internal = "internal",
+}
+
+/**
+ * Represents a position in the source code.
+ */
+export interface Position {
+	/** The zero-based offset of the position. */
+	readonly offset: number;
+
+	/** The one-based line of the position. */
+	readonly line: number;
+
+	/** The one-based column of the position. */
+	readonly column: number;
+}
+
+/**
+ * Represents a range of the source code, from `start` (inclusive) to `end` (exclusive).
+ */
+export interface Range {
+	readonly start: Position;
+	readonly end: Position;
+
+	/** The identifier of the source file the range belongs to, if known. */
+	readonly file?: string;
+}
+
+/**
+ * Represents another location of the source code that is related to a diagnostic.
+ */
+export interface RelatedLocation {
+	/** The message explaining the relation. */
+	readonly message: string;
+
+	/** The range of the related location. */
+	readonly range: Range;
+}
+
+/**
+ * Represents a hint on how a diagnostic could be fixed.
+ */
+export interface FixHint {
+	/** The message describing the fix. */
+	readonly message: string;
+
+	/** The range that should be replaced, if the fix can be applied automatically. */
+	readonly range?: Range;
+
+	/** The text that should replace the range. */
+	readonly replacement?: string;
+}
+
+/**
+ * Calculates the position of an offset inside the given input.
+ *
+ * The lines of the input are indexed once, and the index is reused while the input is the same.
+ *
+ * @param input The input the offset belongs to.
+ * @param offset The zero-based offset.
+ * @param origin The position of the input in the whole source, if the input is only a part of it.
+ * @param codePoints Whether the column is counted in code points instead of UTF-16 code units.
+ * @returns The position of the offset, in the whole source.
+ */
+export function locate(
+	input: string,
+	offset: number,
+	origin?: Position,
+	codePoints = false,
+): Position {
+	const position = LineIndex.of(input).locate(offset, codePoints);
+	if (!origin) return position;
+
+	return {
+		offset: origin.offset + position.offset,
+		line: origin.line + position.line - 1,
+		column: position.line === 1 ? origin.column + position.column - 1 : position.column,
+	};
+}
+
+/**
+ * Represents a problem found in the source code, in a form that can be consumed programmatically.
+ */
+export class Diagnostic {
+	/** The code identifying the kind of diagnostic. */
+	public readonly code: string;
+
+	/** The severity of the diagnostic. */
+	public readonly severity: DiagnosticSeverity;
+
+	/** The human readable message of the diagnostic. */
+	public readonly message: string;
+
+	/** The range of the source code the diagnostic refers to. */
+	public readonly range?: Range;
+
+	/** Other locations of the source code related to the diagnostic. */
+	public readonly related: RelatedLocation[];
+
+	/** Hints on how the diagnostic could be fixed. */
+	public readonly fixes: FixHint[];
+
+	/**
+	 * Creates a new Diagnostic instance.
+	 *
+	 * @param code The code identifying the kind of diagnostic.
+	 * @param severity The severity of the diagnostic (default is `DiagnosticSeverity.Error`).
+	 * @param message The human readable message of the diagnostic.
+	 * @param range The range of the source code the diagnostic refers to.
+	 * @param related Other locations of the source code related to the diagnostic.
+	 * @param fixes Hints on how the diagnostic could be fixed.
+	 */
+	constructor({
+		code,
+		severity = DiagnosticSeverity.Error,
+		message,
+		range,
+		related = [],
+		fixes = [],
+	}: {
+		code: string;
+		severity?: DiagnosticSeverity;
+		message: string;
+		range?: Range;
+		related?: RelatedLocation[];
+		fixes?: FixHint[];
+	}) {
+		this.code = code;
+		this.severity = severity;
+		this.message = message;
+		this.range = range;
+		this.related = related;
+		this.fixes = fixes;
+	}
+
+	/**
+	 * Renders the lines of the source code the diagnostic refers to, pointing at its range.
+	 *
+	 * @param source The source code the diagnostic belongs to.
+	 * @param context The number of lines to display before the range (default is `3`).
+	 * @returns The rendered lines, or an empty array if the diagnostic has no range.
+	 */
+	public frame(source: string, context = 3): string[] {
+		if (!this.range) return [];
+
+		const { start, end } = this.range;
+		const lines = source.split(/\r?\n/g);
+		const line = lines[start.line - 1] ?? "";
+
+		// Only underline the part of the range that is in the first line.
+		const length =
+			start.line === end.line ? end.column - start.column : line.length - start.column + 1;
+
+		return [
+			...lines.slice(Math.max(0, start.line - 1 - context), start.line),
+			`${" ".repeat(start.column - 1)}{italic:${"^".repeat(Math.max(1, length))} Here!}`,
+		];
+	}
+
+	/**
+	 * Returns a string representation of the diagnostic.
+	 *
+	 * @returns A string representation of the diagnostic.
+	 */
+	public toString(): string {
+		const location = this.range
+			? ` at Ln ${this.range.start.line}, Col ${this.range.start.column}`
+			: "";
+		return `${DiagnosticSeverity[this.severity]} [${this.code}]: ${this.message}${location}`;
+	}
+}
+
+/**
+ * Represents an error carrying a diagnostic.
+ *
+ * Throw it from competences to abort the current operation while keeping the diagnostic structured.
+ */
+export class DiagnosticError extends Error {
+	/** The diagnostic carried by the error. */
+	public readonly diagnostic: Diagnostic;
+
+	constructor(diagnostic: Diagnostic) {
+		super(diagnostic.message);
+		this.name = "DiagnosticError";
+		this.diagnostic = diagnostic;
+	}
+}
+
+/**
+ * Represents a bag collecting the diagnostics reported while transpiling.
+ */
+export class Diagnostics implements Iterable<Diagnostic> {
+	/** The reported diagnostics, in order. */
+	private readonly entries: Diagnostic[];
+
+	/** The logger used to print the reported diagnostics, if any. */
+	public readonly logger?: Logger;
+
+	/**
+	 * Creates a new Diagnostics instance.
+	 *
+	 * @param options The options for configuring the bag.
+	 * @param options.logger The logger used to print every reported diagnostic.
+	 */
+	constructor({ logger }: { logger?: Logger } = {}) {
+		this.entries = [];
+		this.logger = logger;
+	}
+
+	/**
+	 * Gets the number of reported diagnostics.
+	 */
+	public get size(): number {
+		return this.entries.length;
+	}
+
+	/**
+	 * Gets the reported diagnostics with error severity.
+	 */
+	public get errors(): Diagnostic[] {
+		return this.entries.filter((d) => d.severity === DiagnosticSeverity.Error);
+	}
+
+	/**
+	 * Gets the reported diagnostics with warning severity.
+	 */
+	public get warnings(): Diagnostic[] {
+		return this.entries.filter((d) => d.severity === DiagnosticSeverity.Warning);
+	}
+
+	/**
+	 * Checks if any diagnostic with error severity has been reported.
+	 *
+	 * @returns `true` if there are errors, `false` otherwise.
+	 */
+	public hasErrors(): boolean {
+		return this.entries.some((d) => d.severity === DiagnosticSeverity.Error);
+	}
+
+	/**
+	 * Reports a diagnostic, printing it if the bag has a logger.
+	 *
+	 * @param diagnostic The diagnostic to report.
+	 * @param source The source code the diagnostic belongs to, used to print its location.
+	 * @returns The reported diagnostic.
+	 */
+	public report(diagnostic: Diagnostic, source?: string): Diagnostic {
+		this.entries.push(diagnostic);
+
+		if (this.logger) {
+			const body = [
+				...(source ? diagnostic.frame(source) : []),
+				...diagnostic.related.map(
+					(r) => `${r.message} (Ln ${r.range.start.line}, Col ${r.range.start.column})`,
+				),
+				...diagnostic.fixes.map((f) => `Fix: ${f.message}`),
+			];
+
+			switch (diagnostic.severity) {
+				case DiagnosticSeverity.Error:
+					this.logger.error(diagnostic.toString(), ...body);
+					break;
+				case DiagnosticSeverity.Warning:
+					this.logger.warn(diagnostic.toString(), ...body);
+					break;
+				case DiagnosticSeverity.Information:
+					this.logger.inform(diagnostic.toString(), ...body);
+					break;
+				default:
+					this.logger.debug(diagnostic.toString(), ...body);
+			}
+		}
+
+		return diagnostic;
+	}
+
+	/**
+	 * Reports a diagnostic with error severity.
+	 *
+	 * @param code The code identifying the kind of diagnostic.
+	 * @param message The human readable message of the diagnostic.
+	 * @param range The range of the source code the diagnostic refers to.
+	 * @param source The source code the diagnostic belongs to, used to print its location.
+	 * @returns The reported diagnostic.
+	 */
+	public error(code: string, message: string, range?: Range, source?: string): Diagnostic {
+		return this.report(new Diagnostic({ code, message, range }), source);
+	}
+
+	/**
+	 * Reports a diagnostic with warning severity.
+	 *
+	 * @param code The code identifying the kind of diagnostic.
+	 * @param message The human readable message of the diagnostic.
+	 * @param range The range of the source code the diagnostic refers to.
+	 * @param source The source code the diagnostic belongs to, used to print its location.
+	 * @returns The reported diagnostic.
+	 */
+	public warn(code: string, message: string, range?: Range, source?: string): Diagnostic {
+		return this.report(
+			new Diagnostic({ code, severity: DiagnosticSeverity.Warning, message, range }),
+			source,
+		);
+	}
+
+	/**
+	 * Removes every reported diagnostic.
+	 */
+	public clear(): void {
+		this.entries.length = 0;
+	}
+
+	/**
+	 * Returns a copy of the reported diagnostics.
+	 *
+	 * @returns An array with the reported diagnostics, in order.
+	 */
+	public toArray(): Diagnostic[] {
+		return [...this.entries];
+	}
+
+	public [Symbol.iterator](): Iterator<Diagnostic> {
+		return this.entries[Symbol.iterator]();
+	}
+}
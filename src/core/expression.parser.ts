@@ -0,0 +1,409 @@
+import type { BaseTranspiler } from "./base.transpiler";
+import {
+	Diagnostic,
+	DiagnosticCode,
+	DiagnosticError,
+	Diagnostics,
+	type Range,
+	locate,
+} from "./diagnostic";
+import { BinaryNode, GroupNode, type Node, OperandNode, UnaryNode } from "./node";
+import type { Token } from "./token";
+
+/**
+ * Represents the side operators of the same precedence are grouped from.
+ */
+export enum Associativity {
+	/**
+	 * `a - b - c` is parsed as `(a - b) - c`.
+	 */
+	Left = 1,
+
+	/**
+	 * `a ^ b ^ c` is parsed as `a ^ (b ^ c)`.
+	 */
+	Right = 2,
+}
+
+/**
+ * Represents an operator registered into an expression parser.
+ */
+export interface Operator {
+	/** The symbol of the operator. */
+	readonly symbol: string;
+
+	/** How tightly the operator binds its operands, higher binding tighter. */
+	readonly precedence: number;
+
+	/** The side operators of the same precedence are grouped from. */
+	readonly associativity: Associativity;
+
+	/** Creates the node of the operator from its operands. */
+	readonly create: (...operands: Node<string, unknown>[]) => Node<string, unknown>;
+}
+
+/**
+ * Represents a parser of infix expressions, such as `a + b * -c`, into nested nodes.
+ *
+ * Operators are registered as prefix, infix or postfix, with a precedence and an associativity,
+ * and the expression is parsed with a Pratt parser. Parentheses group subexpressions, and any
+ * text matching the operand pattern is an operand.
+ *
+ * @example
+ * const parser = new ExpressionParser()
+ *     .infix("+", 10)
+ *     .infix("*", 20)
+ *     .infix("^", 30, Associativity.Right)
+ *     .prefix("-", 40);
+ *
+ * parser.parse("a + b * -c"); // BinaryNode "+" of "a" and BinaryNode "*" of "b" and UnaryNode "-" of "c"
+ */
+export class ExpressionParser {
+	/** The bag where the problems found while parsing are reported. */
+	public readonly diagnostics: Diagnostics;
+
+	/** The pattern matching the operands. */
+	public readonly operand: RegExp;
+
+	/** Creates the node of an operand from its text. */
+	public readonly resolve: (operand: string) => Node<string, unknown>;
+
+	/** The operators that go before their operand, by symbol. */
+	private readonly prefixes = new Map<string, Operator>();
+
+	/** The operators that go between their operands, by symbol. */
+	private readonly infixes = new Map<string, Operator>();
+
+	/** The operators that go after their operand, by symbol. */
+	private readonly postfixes = new Map<string, Operator>();
+
+	/** The symbols of the operators and the parentheses, longest first. */
+	private symbols?: string[];
+
+	/**
+	 * Creates a new ExpressionParser instance.
+	 *
+	 * @param options The options for configuring the parser.
+	 * @param options.diagnostics The bag where the problems found while parsing are reported.
+	 * @param options.operand The pattern matching the operands (default matches numbers and names).
+	 * @param options.resolve Creates the node of an operand (default creates an `OperandNode`).
+	 */
+	constructor({
+		diagnostics = new Diagnostics(),
+		operand = /\d+(?:\.\d+)?|[A-Za-z_$][\w$]*/,
+		resolve = (text: string) => new OperandNode(text),
+	}: {
+		diagnostics?: Diagnostics;
+		operand?: RegExp;
+		resolve?: (operand: string) => Node<string, unknown>;
+	} = {}) {
+		this.diagnostics = diagnostics;
+		this.operand = new RegExp(operand.source, `${operand.flags.replace(/[gy]/g, "")}y`);
+		this.resolve = resolve;
+	}
+
+	/**
+	 * Registers an operator that goes before its operand, such as `-a`.
+	 *
+	 * @param symbol The symbol of the operator.
+	 * @param precedence How tightly the operator binds its operand.
+	 * @param create Creates the node of the operator (default creates a `UnaryNode`).
+	 * @returns The parser, so registrations can be chained.
+	 */
+	public prefix(
+		symbol: string,
+		precedence: number,
+		create = (operand: Node<string, unknown>): Node<string, unknown> =>
+			new UnaryNode(symbol, operand),
+	): this {
+		return this.register(this.prefixes, {
+			symbol,
+			precedence,
+			associativity: Associativity.Right,
+			create,
+		});
+	}
+
+	/**
+	 * Registers an operator that goes between its operands, such as `a + b`.
+	 *
+	 * @param symbol The symbol of the operator.
+	 * @param precedence How tightly the operator binds its operands.
+	 * @param associativity The side operators of the same precedence are grouped from (default is left).
+	 * @param create Creates the node of the operator (default creates a `BinaryNode`).
+	 * @returns The parser, so registrations can be chained.
+	 */
+	public infix(
+		symbol: string,
+		precedence: number,
+		associativity = Associativity.Left,
+		create = (left: Node<string, unknown>, right: Node<string, unknown>): Node<string, unknown> =>
+			new BinaryNode(symbol, left, right),
+	): this {
+		return this.register(this.infixes, { symbol, precedence, associativity, create });
+	}
+
+	/**
+	 * Registers an operator that goes after its operand, such as `a!`.
+	 *
+	 * @param symbol The symbol of the operator.
+	 * @param precedence How tightly the operator binds its operand.
+	 * @param create Creates the node of the operator (default creates a `UnaryNode`).
+	 * @returns The parser, so registrations can be chained.
+	 */
+	public postfix(
+		symbol: string,
+		precedence: number,
+		create = (operand: Node<string, unknown>): Node<string, unknown> =>
+			new UnaryNode(symbol, operand, false),
+	): this {
+		return this.register(this.postfixes, {
+			symbol,
+			precedence,
+			associativity: Associativity.Left,
+			create,
+		});
+	}
+
+	/**
+	 * Parses an expression into nested nodes.
+	 *
+	 * Problems are reported to the diagnostics bag. When the expression is the inside of a token,
+	 * the problems and the nodes are located in the source of the token.
+	 *
+	 * @param source The expression to parse.
+	 * @param token The token whose inside is the expression, if any.
+	 * @returns The node of the expression, or `undefined` if it could not be parsed.
+	 */
+	public parse(source: string, token?: Token<BaseTranspiler>): Node<string, unknown> | undefined {
+		const offset = token?.insideStart ?? 0;
+		const input = token?.match.input ?? source;
+
+		// Locates a part of the expression in the source.
+		const range = (start: number, end: number): Range => ({
+			start: locate(input, offset + start, token?.origin, token?.codePoints),
+			end: locate(input, offset + end, token?.origin, token?.codePoints),
+			file: token?.file,
+		});
+
+		// Stops parsing at a part of the expression.
+		const fail = (code: DiagnosticCode, message: string, start: number, end: number): never => {
+			throw new DiagnosticError(new Diagnostic({ code, message, range: range(start, end) }));
+		};
+
+		let pieces: Piece[] = [];
+		let index = 0;
+
+		// Locates a node in the source, unless the operator already did.
+		const located = ({ node, start, end }: Parsed): Parsed => {
+			node.location ??= range(start, end);
+			return { node, start, end };
+		};
+
+		// Parses the operators binding tighter than the given precedence, or as tight if inclusive.
+		const expression = (precedence: number, inclusive: boolean): Parsed => {
+			const binds = (operator: Operator) =>
+				operator.precedence > precedence || (inclusive && operator.precedence === precedence);
+
+			let left = operand();
+
+			while (index < pieces.length) {
+				const piece = pieces[index];
+				if (piece.operand) break;
+
+				const postfix = this.postfixes.get(piece.text);
+				if (postfix && binds(postfix)) {
+					index++;
+					left = located({ node: postfix.create(left.node), start: left.start, end: piece.end });
+					continue;
+				}
+
+				const infix = this.infixes.get(piece.text);
+				if (infix && binds(infix)) {
+					index++;
+					const right = expression(infix.precedence, infix.associativity === Associativity.Right);
+					left = located({
+						node: infix.create(left.node, right.node),
+						start: left.start,
+						end: right.end,
+					});
+					continue;
+				}
+
+				break;
+			}
+
+			return left;
+		};
+
+		// Parses an operand, a group or a prefix operator applied to an operand.
+		const operand = (): Parsed => {
+			const piece = pieces[index++];
+			if (!piece) {
+				return fail(
+					DiagnosticCode.UnexpectedEnd,
+					"Unexpected end of expression, expected an operand.",
+					source.length,
+					source.length,
+				);
+			}
+
+			if (piece.operand) {
+				return located({ node: this.resolve(piece.text), start: piece.start, end: piece.end });
+			}
+
+			if (piece.text === "(") {
+				const inner = expression(Number.NEGATIVE_INFINITY, false);
+				const closer = pieces[index++];
+				if (!closer) {
+					return fail(
+						DiagnosticCode.UnexpectedEnd,
+						'Unexpected end of expression, expected ")".',
+						source.length,
+						source.length,
+					);
+				}
+				if (closer.text !== ")") {
+					return fail(
+						DiagnosticCode.UnexpectedToken,
+						`Unexpected "${closer.text}", expected ")".`,
+						closer.start,
+						closer.end,
+					);
+				}
+				return located({ node: new GroupNode(inner.node), start: piece.start, end: closer.end });
+			}
+
+			const prefix = this.prefixes.get(piece.text);
+			if (prefix) {
+				const operand = expression(prefix.precedence, true);
+				return located({ node: prefix.create(operand.node), start: piece.start, end: operand.end });
+			}
+
+			return fail(
+				DiagnosticCode.UnexpectedToken,
+				`Unexpected "${piece.text}", expected an operand.`,
+				piece.start,
+				piece.end,
+			);
+		};
+
+		try {
+			pieces = this.split(source, fail);
+			const { node } = expression(Number.NEGATIVE_INFINITY, false);
+
+			const rest = pieces[index];
+			if (rest) {
+				fail(
+					DiagnosticCode.UnexpectedToken,
+					`Unexpected "${rest.text}" after the expression.`,
+					rest.start,
+					rest.end,
+				);
+			}
+
+			return node;
+		} catch (error) {
+			if (!(error instanceof DiagnosticError)) throw error;
+			this.diagnostics.report(error.diagnostic, input);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Registers an operator, forgetting the cached symbols.
+	 *
+	 * @param operators The operators of the same kind, by symbol.
+	 * @param operator The operator to register.
+	 * @returns The parser.
+	 */
+	protected register(operators: Map<string, Operator>, operator: Operator): this {
+		operators.set(operator.symbol, operator);
+		this.symbols = undefined;
+		return this;
+	}
+
+	/**
+	 * Splits an expression into operands and symbols, skipping the whitespace between them.
+	 *
+	 * Operands are matched before symbols, except for symbols that are whole words.
+	 *
+	 * @param source The expression to split.
+	 * @param fail Stops parsing at a part of the expression.
+	 * @returns The pieces of the expression, in order.
+	 */
+	protected split(
+		source: string,
+		fail: (code: DiagnosticCode, message: string, start: number, end: number) => never,
+	): Piece[] {
+		this.symbols ??= [
+			...new Set([
+				"(",
+				")",
+				...this.prefixes.keys(),
+				...this.infixes.keys(),
+				...this.postfixes.keys(),
+			]),
+		].sort((a, b) => b.length - a.length);
+
+		const pieces: Piece[] = [];
+		let index = 0;
+
+		while (index < source.length) {
+			if (/\s/.test(source[index])) {
+				index++;
+				continue;
+			}
+
+			const symbol = this.symbols.find((symbol) => source.startsWith(symbol, index));
+
+			// Word operators, such as `and`, would match as operands too, so they win when they are whole words.
+			const word =
+				symbol !== undefined &&
+				/[\w$]$/.test(symbol) &&
+				!/[\w$]/.test(source[index + symbol.length] ?? "");
+
+			this.operand.lastIndex = index;
+			const operand = word ? undefined : this.operand.exec(source)?.[0];
+			if (operand) {
+				pieces.push({ text: operand, start: index, end: index + operand.length, operand: true });
+				index += operand.length;
+				continue;
+			}
+
+			if (symbol) {
+				pieces.push({ text: symbol, start: index, end: index + symbol.length, operand: false });
+				index += symbol.length;
+				continue;
+			}
+
+			fail(
+				DiagnosticCode.UnexpectedText,
+				`Unexpected "${source[index]}" in the expression.`,
+				index,
+				index + 1,
+			);
+		}
+
+		return pieces;
+	}
+}
+
+/**
+ * Represents an operand or a symbol of an expression.
+ */
+interface Piece {
+	readonly text: string;
+	readonly start: number;
+	readonly end: number;
+	readonly operand: boolean;
+}
+
+/**
+ * Represents a node parsed from a part of an expression.
+ */
+interface Parsed {
+	readonly node: Node<string, unknown>;
+	readonly start: number;
+	readonly end: number;
+}
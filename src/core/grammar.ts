@@ -0,0 +1,424 @@
+import type { BaseTranspiler } from "./base.transpiler";
+import type { Token } from "./token";
+
+/**
+ * Represents a stream of tokens that can be looked ahead without consuming them.
+ *
+ * @template Transpiler The type of the transpiler.
+ */
+export class TokenStream<Transpiler extends BaseTranspiler>
+	implements IterableIterator<Token<Transpiler>>
+{
+	/** The tokens that have not been consumed yet. */
+	private readonly source: Iterator<Token<Transpiler>>;
+
+	/** The tokens looked ahead, and not consumed yet. */
+	private readonly buffer: Token<Transpiler>[];
+
+	/**
+	 * Creates a new TokenStream instance.
+	 *
+	 * @param source The tokens to stream.
+	 */
+	constructor(source: Iterable<Token<Transpiler>>) {
+		this.source = source[Symbol.iterator]();
+		this.buffer = [];
+	}
+
+	/**
+	 * Gets a token ahead without consuming it.
+	 *
+	 * @param offset The number of tokens to look ahead, `0` being the next one.
+	 * @returns The token, or `undefined` if the stream ends before it.
+	 */
+	public peek(offset = 0): Token<Transpiler> | undefined {
+		while (this.buffer.length <= offset) {
+			const next = this.source.next();
+			if (next.done) return undefined;
+			this.buffer.push(next.value);
+		}
+		return this.buffer[offset];
+	}
+
+	/**
+	 * Consumes the next token.
+	 *
+	 * @returns The result of the iteration.
+	 */
+	public next(): IteratorResult<Token<Transpiler>> {
+		const token = this.buffer.shift();
+		return token ? { done: false, value: token } : this.source.next();
+	}
+
+	public [Symbol.iterator](): IterableIterator<Token<Transpiler>> {
+		return this;
+	}
+}
+
+/**
+ * Represents the farthest point where the tokens stopped following a rule, and what was expected there.
+ */
+export interface Failure {
+	/** The offset of the token that was not expected. */
+	offset: number;
+
+	/** The identifiers of the competences expected at the offset. */
+	readonly expected: Set<string>;
+}
+
+/**
+ * Represents a part of the tokens that follows a rule.
+ *
+ * @template Transpiler The type of the transpiler.
+ */
+export class Production<Transpiler extends BaseTranspiler> {
+	/** The rule that produced it. */
+	public readonly rule: Rule;
+
+	/** The productions of the parts of the rule, in order. */
+	public readonly children: Production<Transpiler>[];
+
+	/** The tokens that follow the rule, in order. */
+	public readonly tokens: Token<Transpiler>[];
+
+	/**
+	 * Creates a new Production instance.
+	 *
+	 * @param rule The rule that produced it.
+	 * @param children The productions of the parts of the rule.
+	 * @param tokens The tokens that follow the rule, or those of the children by default.
+	 */
+	constructor(
+		rule: Rule,
+		children: Production<Transpiler>[],
+		tokens = children.flatMap((child) => child.tokens),
+	) {
+		this.rule = rule;
+		this.children = children;
+		this.tokens = tokens;
+	}
+
+	/**
+	 * Gets the first token of the production.
+	 */
+	public get token(): Token<Transpiler> | undefined {
+		return this.tokens[0];
+	}
+
+	/**
+	 * Finds the first production with the given label, searching the descendants in order.
+	 *
+	 * @param label The label of the production.
+	 * @returns The production, or `undefined` if there is none.
+	 */
+	public get(label: string): Production<Transpiler> | undefined {
+		return this.all(label)[0];
+	}
+
+	/**
+	 * Finds every production with the given label, searching the descendants in order.
+	 *
+	 * The descendants of labelled productions and nested grammars are not searched, so labels can be
+	 * reused by nested rules.
+	 *
+	 * @param label The label of the productions.
+	 * @returns The productions.
+	 */
+	public all(label: string): Production<Transpiler>[] {
+		const found: Production<Transpiler>[] = [];
+		for (const child of this.children) {
+			if (child.rule instanceof Label && child.rule.name === label) {
+				found.push(child);
+			} else if (!(child.rule instanceof Label || child.rule instanceof Terminal)) {
+				found.push(...child.all(label));
+			}
+		}
+		return found;
+	}
+
+	/**
+	 * Sets the productions of the nested grammars as the `production` of their tokens.
+	 */
+	public assign(): void {
+		if (this.rule instanceof Terminal && this.children.length > 0) {
+			this.tokens[0].production = this.children[0];
+		}
+		for (const child of this.children) {
+			child.assign();
+		}
+	}
+}
+
+/**
+ * Represents a rule that tokens can follow.
+ */
+export abstract class Rule {
+	/**
+	 * Matches the rule against the tokens of a stream, without consuming them.
+	 *
+	 * @param stream The tokens to match.
+	 * @param offset The offset of the first token to match.
+	 * @param failure The farthest failure so far, updated when the rule fails farther.
+	 * @returns The production, or `undefined` if the tokens do not follow the rule.
+	 */
+	public abstract match<Transpiler extends BaseTranspiler>(
+		stream: TokenStream<Transpiler>,
+		offset: number,
+		failure: Failure,
+	): Production<Transpiler> | undefined;
+}
+
+/**
+ * Represents a rule matching a single token of a competence, along with the tokens that follow
+ * the grammar of the competence, if it has one.
+ */
+export class Terminal extends Rule {
+	/** The identifier of the competence. */
+	public readonly identifier: string;
+
+	/**
+	 * Creates a new Terminal instance.
+	 *
+	 * @param identifier The identifier of the competence.
+	 */
+	constructor(identifier: string) {
+		super();
+		this.identifier = identifier;
+	}
+
+	public match<Transpiler extends BaseTranspiler>(
+		stream: TokenStream<Transpiler>,
+		offset: number,
+		failure: Failure,
+	): Production<Transpiler> | undefined {
+		const token = stream.peek(offset);
+		if (token?.competence.identifier === this.identifier) {
+			const { grammar } = token.competence;
+			if (!grammar) return new Production(this, [], [token]);
+
+			// The token follows the grammar of its own competence too.
+			const nested = grammar.match(stream, offset + 1, failure);
+			return nested && new Production(this, [nested], [token, ...nested.tokens]);
+		}
+
+		if (offset > failure.offset) {
+			failure.offset = offset;
+			failure.expected.clear();
+		}
+		if (offset === failure.offset) {
+			failure.expected.add(this.identifier);
+		}
+		return undefined;
+	}
+}
+
+/**
+ * Represents a rule matching several rules, one after the other.
+ */
+export class Sequence extends Rule {
+	/** The rules, in order. */
+	public readonly rules: readonly Rule[];
+
+	/**
+	 * Creates a new Sequence instance.
+	 *
+	 * @param rules The rules, in order.
+	 */
+	constructor(rules: readonly Rule[]) {
+		super();
+		this.rules = rules;
+	}
+
+	public match<Transpiler extends BaseTranspiler>(
+		stream: TokenStream<Transpiler>,
+		offset: number,
+		failure: Failure,
+	): Production<Transpiler> | undefined {
+		const children: Production<Transpiler>[] = [];
+		let current = offset;
+
+		for (const rule of this.rules) {
+			const child = rule.match(stream, current, failure);
+			if (!child) return undefined;
+
+			children.push(child);
+			current += child.tokens.length;
+		}
+
+		return new Production(this, children);
+	}
+}
+
+/**
+ * Represents a rule matching the first of several rules that matches.
+ */
+export class Choice extends Rule {
+	/** The alternative rules, by preference. */
+	public readonly rules: readonly Rule[];
+
+	/**
+	 * Creates a new Choice instance.
+	 *
+	 * @param rules The alternative rules, by preference.
+	 */
+	constructor(rules: readonly Rule[]) {
+		super();
+		this.rules = rules;
+	}
+
+	public match<Transpiler extends BaseTranspiler>(
+		stream: TokenStream<Transpiler>,
+		offset: number,
+		failure: Failure,
+	): Production<Transpiler> | undefined {
+		for (const rule of this.rules) {
+			const child = rule.match(stream, offset, failure);
+			if (child) return new Production(this, [child]);
+		}
+		return undefined;
+	}
+}
+
+/**
+ * Represents a rule matching another rule as many times as possible, within bounds.
+ */
+export class Repeat extends Rule {
+	/** The repeated rule. */
+	public readonly rule: Rule;
+
+	/** The minimum number of repetitions. */
+	public readonly min: number;
+
+	/** The maximum number of repetitions. */
+	public readonly max: number;
+
+	/**
+	 * Creates a new Repeat instance.
+	 *
+	 * @param rule The repeated rule.
+	 * @param min The minimum number of repetitions.
+	 * @param max The maximum number of repetitions.
+	 */
+	constructor(rule: Rule, min: number, max: number) {
+		super();
+		this.rule = rule;
+		this.min = min;
+		this.max = max;
+	}
+
+	public match<Transpiler extends BaseTranspiler>(
+		stream: TokenStream<Transpiler>,
+		offset: number,
+		failure: Failure,
+	): Production<Transpiler> | undefined {
+		const children: Production<Transpiler>[] = [];
+		let current = offset;
+
+		while (children.length < this.max) {
+			const child = this.rule.match(stream, current, failure);
+
+			// A repetition that matches no tokens would match forever.
+			if (!child || child.tokens.length === 0) break;
+
+			children.push(child);
+			current += child.tokens.length;
+		}
+
+		return children.length < this.min ? undefined : new Production(this, children);
+	}
+}
+
+/**
+ * Represents a rule whose production can be found by name.
+ */
+export class Label extends Rule {
+	/** The name of the production. */
+	public readonly name: string;
+
+	/** The labelled rule. */
+	public readonly rule: Rule;
+
+	/**
+	 * Creates a new Label instance.
+	 *
+	 * @param name The name of the production.
+	 * @param rule The labelled rule.
+	 */
+	constructor(name: string, rule: Rule) {
+		super();
+		this.name = name;
+		this.rule = rule;
+	}
+
+	public match<Transpiler extends BaseTranspiler>(
+		stream: TokenStream<Transpiler>,
+		offset: number,
+		failure: Failure,
+	): Production<Transpiler> | undefined {
+		const child = this.rule.match(stream, offset, failure);
+		return child && new Production(this, [child]);
+	}
+}
+
+/**
+ * Converts the identifiers of competences into terminal rules.
+ *
+ * @param rule The rule or the identifier of a competence.
+ * @returns The rule.
+ */
+function rule(rule: Rule | string): Rule {
+	return typeof rule === "string" ? new Terminal(rule) : rule;
+}
+
+/**
+ * Creates a rule matching several rules, one after the other.
+ *
+ * @param rules The rules or identifiers of competences, in order.
+ * @returns The rule.
+ */
+export function sequence(...rules: (Rule | string)[]): Sequence {
+	return new Sequence(rules.map(rule));
+}
+
+/**
+ * Creates a rule matching the first of several rules that matches.
+ *
+ * @param rules The rules or identifiers of competences, by preference.
+ * @returns The rule.
+ */
+export function choice(...rules: (Rule | string)[]): Choice {
+	return new Choice(rules.map(rule));
+}
+
+/**
+ * Creates a rule matching another rule as many times as possible, within bounds.
+ *
+ * @param repeated The rule or identifier of a competence to repeat.
+ * @param min The minimum number of repetitions (default is `0`).
+ * @param max The maximum number of repetitions (default is unbounded).
+ * @returns The rule.
+ */
+export function repeat(repeated: Rule | string, min = 0, max = Number.POSITIVE_INFINITY): Repeat {
+	return new Repeat(rule(repeated), min, max);
+}
+
+/**
+ * Creates a rule matching another rule once, if possible.
+ *
+ * @param optional The rule or identifier of a competence.
+ * @returns The rule.
+ */
+export function optional(optional: Rule | string): Repeat {
+	return new Repeat(rule(optional), 0, 1);
+}
+
+/**
+ * Creates a rule whose production can be found by name.
+ *
+ * @param name The name of the production.
+ * @param labelled The rule or identifier of a competence.
+ * @returns The rule.
+ */
+export function label(name: string, labelled: Rule | string): Label {
+	return new Label(name, rule(labelled));
+}
@@ -1,6 +1,15 @@
 import { Logger } from "@common/logger";
 import type { BaseCompetence } from "./base.competence";
 import type { BaseTranspiler } from "./base.transpiler";
+import {
+	Diagnostic,
+	DiagnosticCode,
+	DiagnosticError,
+	DiagnosticSeverity,
+	Diagnostics,
+	type Position,
+	locate,
+} from "./diagnostic";
 import { Token } from "./token";
 
 /**
@@ -8,9 +17,113 @@ import { Token } from "./token";
  */
 export enum LexerOptions {
 	/**
-	 * Throws an error when there is a gap between tokens.
+	 * Reports an error and stops tokenizing when there is a gap between tokens.
 	 */
 	FailWhenUnmatch = 1,
+
+	/**
+	 * Selects the competence with the longest match instead of the first one that matches.
+	 *
+	 * Ties are broken by priority, and then by declaration order.
+	 */
+	LongestMatch = 2,
+
+	/**
+	 * Keeps the text between tokens as their trivia, so the source can be rebuilt from the tokens.
+	 *
+	 * The text after a token up to the end of its line is its trailing trivia, and the rest is
+	 * the leading trivia of the next token. Each token is yielded once the next one is found.
+	 */
+	PreserveTrivia = 4,
+
+	/**
+	 * Yields the text between matches as tokens of the `text` competence, instead of skipping it.
+	 *
+	 * It takes precedence over `FailWhenUnmatch`, and matches that no competence claims are
+	 * part of the text too. Transpilers set the competence, which resolves into `TextNode`s.
+	 */
+	EmitText = 8,
+
+	/**
+	 * Counts the columns of the tokens and the diagnostics in code points instead of UTF-16
+	 * code units, so characters outside the Basic Multilingual Plane take a single column.
+	 */
+	CodePointColumns = 16,
+}
+
+/**
+ * Represents the options of a single tokenization.
+ */
+export interface TokenizeOptions {
+	/**
+	 * The identifier of the source file being tokenized, attached to the range of every token.
+	 */
+	readonly file?: string;
+
+	/**
+	 * The lexer mode the tokenization starts in (default is `Lexer.DEFAULT_MODE`).
+	 */
+	readonly mode?: string;
+
+	/**
+	 * The lexer modes the tokenization starts in, the current one being the last. Overrides `mode`.
+	 */
+	readonly stack?: readonly string[];
+
+	/**
+	 * The offset of the input where the tokenization starts (default is `0`).
+	 */
+	readonly offset?: number;
+
+	/**
+	 * The position of the input in the whole source, if the input is only a part of it.
+	 */
+	readonly origin?: Position;
+
+	/**
+	 * The signal to stop the tokenization with, which is then reported as an error.
+	 */
+	readonly signal?: AbortSignal;
+
+	/**
+	 * Whether more input may follow, as in the buffers of a stream, so the tokens whose inside
+	 * is not closed yet are not reported as unbalanced.
+	 */
+	readonly partial?: boolean;
+}
+
+/**
+ * Represents the limits of the tokenizations, which are reported as an error when exceeded.
+ *
+ * They guard services against pathological inputs. Since the limits are checked between
+ * matches, a single pattern that takes too long to match cannot be stopped by them.
+ */
+export interface LexerLimits {
+	/** The maximum length of the input. */
+	readonly input?: number;
+
+	/** The maximum depth of the structures nested in the insides of the tokens. */
+	readonly depth?: number;
+
+	/** The maximum number of tokens. */
+	readonly tokens?: number;
+
+	/** The maximum duration of a tokenization, in milliseconds. */
+	readonly time?: number;
+}
+
+/**
+ * Represents a change of a text.
+ */
+export interface TextEdit {
+	/** The offset where the change starts. */
+	readonly offset: number;
+
+	/** The number of characters removed from the offset. */
+	readonly removed: number;
+
+	/** The text inserted at the offset. */
+	readonly inserted: string;
 }
 
 /**
@@ -19,7 +132,14 @@ export enum LexerOptions {
  * @template Transpiler - The type of the transpiler associated with the lexer.
  */
 export class Lexer<Transpiler extends BaseTranspiler> {
-	/** The competences available for tokenization. */
+	/** The mode of the competences that do not specify one, and where tokenizations start. */
+	public static readonly DEFAULT_MODE = "default";
+
+	/**
+	 * The competences available for tokenization.
+	 *
+	 * The patterns compiled from them are cached, so call `invalidate` after changing it directly.
+	 */
 	public readonly competences: Map<string, BaseCompetence<Transpiler>>;
 
 	/** The logger used for logging lexer-related messages. */
@@ -28,103 +148,749 @@ export class Lexer<Transpiler extends BaseTranspiler> {
 	/** The options used for tokenization. */
 	public readonly options: 0 | LexerOptions;
 
+	/** The limits of the tokenizations. */
+	public readonly limits: LexerLimits;
+
+	/**
+	 * The bag where the problems found while tokenizing are reported.
+	 *
+	 * Transpilers replace it with their own bag, so every diagnostic ends up in the same place.
+	 */
+	public diagnostics: Diagnostics;
+
+	/**
+	 * The competence of the gap tokens, used with the `EmitText` option.
+	 *
+	 * Transpilers set it to a `TextCompetence` unless it is already set.
+	 */
+	public text?: BaseCompetence<Transpiler>;
+
+	/** The compiled patterns, by the mode and the flags they were compiled with. */
+	private readonly cache: Map<string, Compiled<Transpiler>>;
+
 	/**
 	 * Constructs a new instance of the Lexer class.
 	 *
 	 * @param competences An array of competences to be used for tokenization.
 	 * @param options The options used for tokenization.
+	 * @param limits The limits of the tokenizations (default is none).
 	 */
 	constructor({
 		competences = [],
 		options,
-	}: { competences?: BaseCompetence<Transpiler>[]; options?: LexerOptions } = {}) {
+		limits = {},
+	}: {
+		competences?: BaseCompetence<Transpiler>[];
+		options?: LexerOptions;
+		limits?: LexerLimits;
+	} = {}) {
 		this.competences = new Map(competences.map((c) => [c.identifier, c]));
 		this.logger = new Logger({ from: "LEXER" });
 		this.options = options ?? 0;
+		this.limits = limits;
+		this.diagnostics = new Diagnostics({ logger: this.logger });
+		this.cache = new Map();
 	}
 
 	/**
-	 * Creates a regular expression pattern based on the competences.
+	 * Gets whether the columns are counted in code points, as set by the `CodePointColumns` option.
+	 */
+	protected get codePoints(): boolean {
+		return (this.options & LexerOptions.CodePointColumns) !== 0;
+	}
+
+	/**
+	 * Discards the compiled patterns, so they are compiled again on the next tokenization.
 	 *
-	 * This pattern respects the order of iteration.
+	 * It must be called whenever the competences change, which `BaseTranspiler.declare` and
+	 * `BaseTranspiler.undeclare` already do.
+	 */
+	public invalidate(): void {
+		this.cache.clear();
+	}
+
+	/**
+	 * Gets the competences in the order they are tried: by descending priority,
+	 * and then by declaration order.
 	 *
-	 * @param flags The flags to be used for the regular expression.
-	 * @returns A regular expression pattern.
+	 * @param mode The mode the competences must be active in, or `undefined` to get all of them.
+	 * @returns The sorted competences.
 	 */
-	public createPattern(flags = "gm"): RegExp {
+	public sorted(mode?: string): BaseCompetence<Transpiler>[] {
 		// Get the competences.
 		const competences: BaseCompetence<Transpiler>[] = [];
 		for (const value of this.competences.values()) {
-			competences.push(value);
+			if (mode === undefined || (value.modes?.within ?? [Lexer.DEFAULT_MODE]).includes(mode)) {
+				competences.push(value);
+			}
 		}
 
-		// Create a pattern based on the competences.
-		const pattern = competences.map((c) => `(?:${c.patterns.foremost.source})`).join("|");
+		// Array.prototype.sort is stable, so the declaration order is kept between equals.
+		return competences.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+	}
 
-		// Return the regular expression.
-		return new RegExp(pattern, flags);
+	/**
+	 * Creates a regular expression pattern based on the competences.
+	 *
+	 * This pattern respects the priority of the competences, and then the order of iteration.
+	 * Each competence is wrapped in a capture group, so the one that matched can be known
+	 * without testing them again.
+	 *
+	 * @param flags The flags to be used for the regular expression.
+	 * @param mode The mode whose competences are matched.
+	 * @returns A regular expression pattern.
+	 */
+	public createPattern(flags = "gm", mode = Lexer.DEFAULT_MODE): RegExp {
+		return new RegExp(this.compile(flags, mode).pattern);
 	}
 
 	/**
 	 * Tokenizes the input string and yields tokens.
 	 *
+	 * Only the competences of the mode on top of the mode stack are tried, and the stack changes
+	 * as the matched competences push and pop modes.
+	 *
 	 * @param input The input string to be tokenized.
 	 * @param flags The flags to be used for the regular expression.
+	 * @param options The options of the tokenization.
 	 * @yields Tokens generated from the input string.
 	 */
-	public *tokenize(input: string, flags = "gm"): Generator<Token<Transpiler>> {
-		// Get the competences.
-		const competences: BaseCompetence<Transpiler>[] = [];
-		for (const value of this.competences.values()) {
-			competences.push(value);
+	public *tokenize(
+		input: string,
+		flags = "gm",
+		options: TokenizeOptions = {},
+	): Generator<Token<Transpiler>> {
+		const {
+			file,
+			origin,
+			signal,
+			partial,
+			mode = Lexer.DEFAULT_MODE,
+			stack: initial = [mode],
+			offset = 0,
+		} = options;
+		const { limits, codePoints } = this;
+
+		// Reports an error at the given index, which stops the tokenization.
+		const fail = (code: DiagnosticCode, message: string, index: number) => {
+			const at = locate(input, index, origin, codePoints);
+			this.diagnostics.error(code, message, { start: at, end: at, file }, input);
+		};
+
+		if (limits.input !== undefined && input.length > limits.input) {
+			fail(
+				DiagnosticCode.LimitExceeded,
+				`The input is ${input.length} characters long, more than the limit of ${limits.input}.`,
+				offset,
+			);
+			return;
 		}
 
-		// Create a pattern based on the competences.
-		const pattern = this.createPattern(flags);
+		// The time after which the tokenization stops, if limited.
+		const deadline = limits.time === undefined ? undefined : performance.now() + limits.time;
+
+		// The number of tokens created so far.
+		let count = 0;
+
+		// The modes entered so far, the current one being the last.
+		// It is replaced rather than changed, so tokens can share it.
+		let stack = initial;
+
+		// The state of the tokenization in each mode, created the first time the mode is entered.
+		const states = new Map<string, State<Transpiler>>();
+		const enter = (current: string): State<Transpiler> => {
+			let state = states.get(current);
+			if (!state) {
+				const { pattern, candidates } = this.compile(flags, current);
+				state = {
+					// Copy the pattern, since its state would be shared with other tokenizations otherwise.
+					pattern: new RegExp(pattern),
+					candidates,
+					checked: { seen: candidates.map(() => new Set<string>()), reported: new Set<string>() },
+				};
+				states.set(current, state);
+			}
+			return state;
+		};
+
+		let state = enter(stack[stack.length - 1]);
+		state.pattern.lastIndex = offset;
 
 		// Last token processed.
 		let last: Token<Transpiler> | undefined;
 
+		// With trivia, a token is yielded once the next one is found, since its trailing trivia is known then.
+		const preserve = this.options & LexerOptions.PreserveTrivia;
+
+		// The competence of the gap tokens, if they are emitted.
+		const text = this.options & LexerOptions.EmitText ? this.text : undefined;
+
+		// Processes a token, returning the token to yield, if any.
+		const settle = (token: Token<Transpiler>): Token<Transpiler> | undefined => {
+			const previous = last;
+			last = token; // Update the last token.
+
+			if (!preserve) return token;
+
+			// The trailing trivia of the last token runs up to the end of its line, and the rest leads the current one.
+			const between = input.slice(previous?.end ?? offset, token.start);
+			const newline = between.indexOf("\n");
+			const split = previous ? (newline === -1 ? between.length : newline) : 0;
+
+			token.trivia = { leading: between.slice(split), trailing: "" };
+			if (!previous?.trivia) return undefined;
+
+			previous.trivia.trailing = between.slice(0, split);
+			return previous;
+		};
+
 		// Iterate over the matches.
-		for (let match = pattern.exec(input); match !== null; match = pattern.exec(input)) {
+		for (let match = state.pattern.exec(input); match !== null; match = state.pattern.exec(input)) {
+			// Stop if the tokenization was aborted or went beyond its limits.
+			if (signal?.aborted) {
+				fail(DiagnosticCode.Aborted, "The tokenization was aborted.", match.index);
+				return;
+			}
+			if (deadline !== undefined && performance.now() > deadline) {
+				fail(
+					DiagnosticCode.LimitExceeded,
+					`The tokenization took longer than the limit of ${limits.time}ms.`,
+					match.index,
+				);
+				return;
+			}
+
 			// Find the competence that matches the current match.
-			const competence = competences.find((c) => c.patterns.foremost.test(match[0]));
+			const selected = this.select(state.candidates, match, state.checked, options);
 
-			// If no competence is found, log a warning and continue.
-			if (!competence) {
-				this.logger.warn(`No competence found for "${match[0]}"`);
+			// If no competence is found, report a warning and continue.
+			// When gap tokens are emitted, the match is part of the next gap instead.
+			if (!selected) {
+				if (!text) {
+					this.diagnostics.warn(
+						DiagnosticCode.UnknownMatch,
+						`No competence found for "${match[0]}".`,
+						{
+							start: locate(input, match.index, origin, codePoints),
+							end: locate(input, match.index + match[0].length, origin, codePoints),
+							file,
+						},
+						input,
+					);
+				}
 				continue;
 			}
 
+			if (limits.tokens !== undefined && ++count > limits.tokens) {
+				fail(
+					DiagnosticCode.LimitExceeded,
+					`The input has more tokens than the limit of ${limits.tokens}.`,
+					match.index,
+				);
+				return;
+			}
+
 			// Create a token from the match and competence.
-			const token = new Token({ competence, match });
-
-			// If the FailWhenUnmatch option is set, throw an error if there is a gap between tokens.
-			if (this.options & LexerOptions.FailWhenUnmatch) {
-				if (last) {
-					// Get the text between the last token and the current token.
-					const between = input.slice(last.end, token.start - 1);
-					const trimmed = between.trim();
-
-					// If the text is not empty, throw an error.
-					if (trimmed !== "") {
-						const column = token.start - trimmed.length - 1;
-						this.logger.throw(
-							`Unexpected token {underline;italic:${trimmed}} at Ln ${token.line}, Col ${column + 1}.`,
-							input
-								.split(/\n+/g)
-								.slice(Math.max(0, token.line - 4), token.line)
-								.join("\n"),
-							`${" ".repeat(1 + Math.round(column / token.line))}{italic:${"^".repeat(trimmed.length)} Here!}`,
-						);
-					}
+			let token: Token<Transpiler>;
+			try {
+				token = new Token({
+					competence: selected.competence,
+					match: selected.match,
+					file,
+					stack,
+					origin,
+					codePoints,
+					maxDepth: limits.depth,
+				});
+			} catch (error) {
+				if (!(error instanceof DiagnosticError)) throw error;
+				this.diagnostics.report(error.diagnostic, input);
+				return;
+			}
+
+			// An inside that reaches the end of the input, such as one with an unterminated string, is never closed.
+			if (token.open && !partial) {
+				this.diagnostics.error(
+					DiagnosticCode.UnbalancedDelimiter,
+					`The inside of "${token.match[0]}" is never closed.`,
+					{
+						start: locate(input, token.start, origin, codePoints),
+						end: locate(input, token.insideStart ?? token.end, origin, codePoints),
+						file,
+					},
+					input,
+				);
+			}
+
+			// The text between the last token and the current token is only needed by these options.
+			const start = last?.end ?? offset;
+
+			if (text) {
+				// If gap tokens are emitted, the text becomes a token of its own.
+				if (start < token.start) {
+					const between = input.slice(start, token.start);
+					const ready = settle(this.gap(text, input, start, between, stack, options));
+					if (ready) yield ready;
 				}
+			} else if (this.options & LexerOptions.FailWhenUnmatch && last) {
+				// If the FailWhenUnmatch option is set, report an error and stop if there is a gap between tokens.
+				const between = input.slice(start, token.start);
+				const trimmed = between.trim();
 
-				last = token; // Update the last token.
+				// If the text is not empty, report an error.
+				if (trimmed !== "") {
+					const begin = start + between.indexOf(trimmed);
+					this.diagnostics.error(
+						DiagnosticCode.UnexpectedText,
+						`Unexpected text "${trimmed}".`,
+						{
+							start: locate(input, begin, origin, codePoints),
+							end: locate(input, begin + trimmed.length, origin, codePoints),
+							file,
+						},
+						input,
+					);
+					if (preserve) yield last;
+					return;
+				}
 			}
 
-			yield token; // Yield the token.
-			pattern.lastIndex = token.end; // Update the pattern's last index.
+			const ready = settle(token);
+			if (ready) yield ready; // Yield the token.
+
+			// Switch to the mode the competence leads to, if any.
+			const { modes } = token.competence;
+			if (modes?.pop) {
+				if (stack.length > 1) {
+					stack = stack.slice(0, -1);
+				} else {
+					this.diagnostics.warn(
+						DiagnosticCode.UnbalancedMode,
+						`"${token.total}" leaves the "${stack[0]}" mode, where the tokenization started.`,
+						token.range,
+						input,
+					);
+				}
+			}
+			if (modes?.push) {
+				stack = [...stack, modes.push];
+			}
+			if (modes?.pop || modes?.push) {
+				state = enter(stack[stack.length - 1]);
+			}
+
+			state.pattern.lastIndex = token.end; // Update the pattern's last index.
+		}
+
+		// The text after the last token is a gap too.
+		const start = last?.end ?? offset;
+		if (text && start < input.length) {
+			const ready = settle(this.gap(text, input, start, input.slice(start), stack, options));
+			if (ready) yield ready;
+		}
+
+		// The text after the last token is its trailing trivia.
+		if (preserve && last?.trivia) {
+			last.trivia.trailing = input.slice(last.end);
+			yield last;
+		}
+	}
+
+	/**
+	 * Tokenizes an input that arrives in chunks, and yields the tokens as soon as they are complete.
+	 *
+	 * Only the text that later chunks may still change is buffered: the tokens from the first text
+	 * that does not match yet, which may match with more text, the tokens whose inside is not
+	 * closed yet, and the last token, which more text may extend. A token followed by another one
+	 * is assumed to be complete, so constructs spanning what would be several tokens on their own
+	 * must be matched through an inside, rather than by the foremost pattern alone. The ranges of
+	 * the tokens and the diagnostics are located in the whole input.
+	 *
+	 * The limit on the input length applies to the whole input, while the other limits apply to
+	 * each tokenization of the buffer.
+	 *
+	 * @param source The chunks of the input string.
+	 * @param flags The flags to be used for the regular expression.
+	 * @param options The options of the tokenization.
+	 * @yields Tokens generated from the input string.
+	 */
+	public async *stream(
+		source: AsyncIterable<string> | ReadableStream<string>,
+		flags = "gm",
+		options: TokenizeOptions = {},
+	): AsyncGenerator<Token<Transpiler>> {
+		const diagnostics = this.diagnostics;
+
+		let buffer = "";
+		let origin: Position = options.origin ?? { offset: 0, line: 1, column: 1 };
+		let stack = options.stack ?? [options.mode ?? Lexer.DEFAULT_MODE];
+
+		for await (const chunk of chunks(source)) {
+			buffer += chunk;
+
+			const { input } = this.limits;
+			if (input !== undefined && origin.offset + buffer.length > input) {
+				diagnostics.error(
+					DiagnosticCode.LimitExceeded,
+					`The input is longer than the limit of ${input} characters.`,
+					{ start: origin, end: origin, file: options.file },
+				);
+				return;
+			}
+
+			// The buffer is tokenized again with every chunk, so its diagnostics are collected apart and only
+			// the ones before the buffered text are kept.
+			const pending = new Diagnostics();
+			this.diagnostics = pending;
+			let tokens: Token<Transpiler>[];
+			try {
+				tokens = [...this.tokenize(buffer, flags, { ...options, stack, origin, partial: true })];
+			} finally {
+				this.diagnostics = diagnostics;
+			}
+
+			// An error stops the tokenization, so the rest of the input is not needed.
+			if (pending.hasErrors()) {
+				for (const diagnostic of pending) diagnostics.report(diagnostic);
+				for (const token of tokens) yield token;
+				return;
+			}
+
+			// Text that does not match yet may match once more text arrives, so a token is only complete when
+			// it is closed and followed by another one, with no such text before it.
+			const unmatched = this.unmatched(buffer, tokens);
+			const kept = tokens.findIndex((token, index) => {
+				const next = tokens[index + 1] as Token<Transpiler> | undefined;
+				return token.open || !next || next.start > unmatched;
+			});
+			if (kept < 1) continue;
+
+			// The leading trivia of the first buffered token is buffered too.
+			const resume = tokens[kept];
+			const cut = resume.start - (resume.trivia?.leading.length ?? 0);
+			const position = locate(buffer, cut, origin, this.codePoints);
+
+			for (const diagnostic of pending) {
+				if (!diagnostic.range || diagnostic.range.start.offset < position.offset) {
+					diagnostics.report(diagnostic);
+				}
+			}
+
+			for (const token of tokens.slice(0, kept)) yield token;
+
+			buffer = buffer.slice(cut);
+			origin = position;
+			stack = resume.stack ?? stack;
+		}
+
+		for (const token of this.tokenize(buffer, flags, { ...options, stack, origin })) yield token;
+	}
+
+	/**
+	 * Finds the first text of an input that no competence matched, besides whitespace.
+	 *
+	 * @param input The input string.
+	 * @param tokens The tokens of the input string.
+	 * @returns The index of the text, or the length of the input if all of it matched.
+	 */
+	protected unmatched(input: string, tokens: readonly Token<Transpiler>[]): number {
+		let start = 0;
+		for (const token of tokens) {
+			// Gap tokens are text that no competence matched too.
+			const end = token.competence === this.text ? token.end : token.start;
+			const found = input.slice(start, end).search(/\S/);
+			if (found !== -1) return start + found;
+			start = token.end;
+		}
+		return input.length;
+	}
+
+	/**
+	 * Tokenizes the input again after a change, reusing the tokens of the previous input.
+	 *
+	 * Tokenization resumes from the token before the change, in the modes it was matched in, or
+	 * before the first text that no competence matched if it comes earlier, since the change may
+	 * complete a match that starts there (e.g. by closing a string). It stops as soon as a token matches one of the previous tokens after the change. The previous
+	 * tokens from there on are shifted to their new positions instead of being tokenized again.
+	 *
+	 * @param input The input string after the change.
+	 * @param tokens The tokens of the input string before the change.
+	 * @param edit The change made to the input string.
+	 * @param flags The flags to be used for the regular expression.
+	 * @param options The options of the tokenization.
+	 * @returns The tokens of the input string after the change.
+	 */
+	public retokenize(
+		input: string,
+		tokens: readonly Token<Transpiler>[],
+		edit: TextEdit,
+		flags = "gm",
+		options: TokenizeOptions = {},
+	): Token<Transpiler>[] {
+		const delta = edit.inserted.length - edit.removed;
+
+		// The tokens before the one that touches the change are kept, and the one before it is tokenized again,
+		// since patterns can depend on the text right before them (e.g. anchors and word boundaries).
+		// When the change comes before the second token, everything is tokenized again from the start.
+		// The text before the change is the same in both inputs, so its unmatched text can be found in the new one.
+		const changed = Math.min(edit.offset, this.unmatched(input, tokens));
+		let index = tokens.findIndex((token) => token.end >= changed);
+		if (index === -1) index = tokens.length;
+		const from = Math.max(index - 1, 0);
+
+		const result = tokens.slice(0, from);
+		const resume = index > 0 ? tokens[from] : undefined;
+
+		const fresh = this.tokenize(input, flags, {
+			...options,
+			stack: resume?.stack ?? options.stack,
+			offset: resume ? resume.start - (resume.trivia?.leading.length ?? 0) : (options.offset ?? 0),
+		});
+
+		// The previous tokens are compared with the new ones past the change.
+		let previous = index;
+		for (const token of fresh) {
+			result.push(token);
+			if (token.start < edit.offset + edit.inserted.length) continue;
+
+			while (previous < tokens.length && tokens[previous].start + delta < token.start) previous++;
+			const candidate = tokens[previous] as Token<Transpiler> | undefined;
+
+			// Once a token is the same as a previous one, the rest of them are the same too.
+			if (
+				candidate &&
+				candidate.start + delta === token.start &&
+				candidate.total === token.total &&
+				candidate.competence === token.competence &&
+				candidate.stack?.join("\0") === token.stack?.join("\0")
+			) {
+				for (const rest of tokens.slice(previous + 1)) {
+					result.push(rest.shift(delta, input));
+				}
+				break;
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Creates the token of a gap between matches.
+	 *
+	 * @param competence The competence of the gap tokens.
+	 * @param input The input string.
+	 * @param index The index where the gap starts.
+	 * @param between The text of the gap.
+	 * @param stack The lexer modes entered at the gap.
+	 * @param options The options of the tokenization.
+	 * @returns The gap token.
+	 */
+	protected gap(
+		competence: BaseCompetence<Transpiler>,
+		input: string,
+		index: number,
+		between: string,
+		stack: readonly string[],
+		{ file, origin }: TokenizeOptions,
+	): Token<Transpiler> {
+		const match = Object.assign([between], { index, input }) as unknown as RegExpMatchArray;
+		return new Token({ competence, match, file, stack, origin, codePoints: this.codePoints });
+	}
+
+	/**
+	 * Compiles the patterns used to tokenize a mode with the given flags, or gets them from the cache.
+	 *
+	 * @param flags The flags to be used for the regular expressions.
+	 * @param mode The mode whose competences are compiled.
+	 * @returns The compiled patterns.
+	 */
+	protected compile(flags: string, mode: string): Compiled<Transpiler> {
+		const key = `${mode}\0${flags}`;
+		const cached = this.cache.get(key);
+		if (cached) return cached;
+
+		const sticky = `${flags.replace(/[gy]/g, "")}y`;
+		const candidates: Candidate<Transpiler>[] = [];
+		const sources: string[] = [];
+
+		// Group 0 is the whole match, so the first competence is wrapped by group 1.
+		let group = 1;
+
+		const sorted = this.sorted(mode);
+		for (let index = 0; index < sorted.length; index++) {
+			const competence = sorted[index];
+			const { source } = competence.patterns.foremost;
+			const next = sorted[index + 1] as BaseCompetence<Transpiler> | undefined;
+
+			// Numbered groups are shifted by the wrapping groups, so backreferences must follow them.
+			// Classes and other escapes, such as `\0` or `[\1]`, are kept as they are.
+			sources.push(
+				`(${source.replace(/\[(?:\\[\s\S]|[^\]\\])*\]|\\([1-9]\d*)|\\[\s\S]/g, (text, n) =>
+					n ? `\\${+n + group}` : text,
+				)})`,
+			);
+
+			// Create a sticky pattern for each competence, to test them at a given position.
+			candidates.push({
+				competence,
+				group,
+				pattern: new RegExp(source, sticky),
+				tied: next !== undefined && (next.priority ?? 0) === (competence.priority ?? 0),
+			});
+
+			// An alternation with the empty string always matches, exposing every group of the source.
+			group += new RegExp(`${source}|`).exec("")?.length ?? 1;
+		}
+
+		// A mode without competences must not match anything, rather than the empty string everywhere.
+		const compiled = { pattern: new RegExp(sources.join("|") || "(?!)", flags), candidates };
+		this.cache.set(key, compiled);
+		return compiled;
+	}
+
+	/**
+	 * Selects the competence that claims the text at the position of a match.
+	 *
+	 * The competence whose group matched wins, since it is the first one (by priority) that
+	 * matches at the position, unless the `LongestMatch` option is set, in which case the
+	 * longest match wins. Competences with the same priority that match the same text as the
+	 * winner are reported as ambiguous.
+	 *
+	 * @param candidates The compiled competences.
+	 * @param match The match of the lexer pattern.
+	 * @param checked The texts already checked for ambiguities, and the ambiguities already reported.
+	 * @param options The options of the tokenization, used to locate the ambiguities.
+	 * @returns The selected competence and its match, or `undefined` if none matches.
+	 */
+	protected select(
+		candidates: Candidate<Transpiler>[],
+		match: RegExpExecArray,
+		checked: { seen: Set<string>[]; reported: Set<string> },
+		{ file, origin }: TokenizeOptions = {},
+	): { competence: BaseCompetence<Transpiler>; match: RegExpExecArray } | undefined {
+		// The competences before the one whose group matched do not match at this position.
+		let first = 0;
+		while (first < candidates.length && match[candidates[first].group] === undefined) first++;
+		if (first === candidates.length) return undefined;
+
+		const { competence, tied } = candidates[first];
+		let winner = { competence, match };
+
+		// Without longest match, a text can only be ambiguous with the competences of the same priority,
+		// and only the first time it is seen.
+		const longest = this.options & LexerOptions.LongestMatch;
+		if (!longest) {
+			const seen = checked.seen[first];
+			if (!tied || seen.has(match[0])) return winner;
+			seen.add(match[0]);
+		}
+
+		const rivals: BaseCompetence<Transpiler>[] = [];
+
+		for (let i = first + 1; i < candidates.length; i++) {
+			const { competence, pattern } = candidates[i];
+			const priority = competence.priority ?? 0;
+
+			// Without longest match, only competences with the winner's priority can be ambiguous.
+			if (!longest && priority < (winner.competence.priority ?? 0)) break;
+
+			pattern.lastIndex = match.index;
+			const found = pattern.exec(match.input);
+			if (!found) continue;
+
+			if (longest && found[0].length > winner.match[0].length) {
+				winner = { competence, match: found };
+				rivals.length = 0;
+			} else if (
+				found[0].length === winner.match[0].length &&
+				priority === (winner.competence.priority ?? 0)
+			) {
+				rivals.push(competence);
+			}
+		}
+
+		for (const rival of rivals) {
+			const ambiguity = `${winner.competence.identifier}\0${rival.identifier}`;
+			if (checked.reported.has(ambiguity)) continue;
+			checked.reported.add(ambiguity);
+
+			const { index, input } = winner.match;
+			this.diagnostics.report(
+				new Diagnostic({
+					code: DiagnosticCode.AmbiguousMatch,
+					severity: DiagnosticSeverity.Warning,
+					message: `"${winner.match[0]}" is matched by both "${winner.competence.identifier}" and "${rival.identifier}" with the same priority, so "${winner.competence.identifier}" has been selected.`,
+					range: {
+						start: locate(input, index, origin, this.codePoints),
+						end: locate(input, index + winner.match[0].length, origin, this.codePoints),
+						file,
+					},
+					fixes: [{ message: "Give one of the competences a higher priority." }],
+				}),
+				input,
+			);
+		}
+
+		return winner;
+	}
+}
+
+/**
+ * Represents a competence compiled for tokenization.
+ */
+interface Candidate<Transpiler extends BaseTranspiler> {
+	/** The competence. */
+	readonly competence: BaseCompetence<Transpiler>;
+
+	/** The number of the group wrapping the competence in the lexer pattern. */
+	readonly group: number;
+
+	/** The sticky version of the competence pattern, to test it at a given position. */
+	readonly pattern: RegExp;
+
+	/** Whether the next competence has the same priority, so both may match the same text. */
+	readonly tied: boolean;
+}
+
+/**
+ * Represents the patterns compiled for tokenization.
+ */
+interface Compiled<Transpiler extends BaseTranspiler> {
+	/** The lexer pattern, matching every competence of the mode. */
+	readonly pattern: RegExp;
+
+	/** The compiled competences, sorted. */
+	readonly candidates: Candidate<Transpiler>[];
+}
+
+/**
+ * Represents the state of a tokenization in a mode.
+ */
+interface State<Transpiler extends BaseTranspiler> extends Compiled<Transpiler> {
+	/** The texts already checked for ambiguities, by candidate, and the ambiguities already reported. */
+	readonly checked: { seen: Set<string>[]; reported: Set<string> };
+}
+
+/**
+ * Iterates over the chunks of a source.
+ *
+ * @param source The chunks, as an async iterable or a stream.
+ * @yields The chunks of the source.
+ */
+async function* chunks(
+	source: AsyncIterable<string> | ReadableStream<string>,
+): AsyncGenerator<string> {
+	if (!("getReader" in source)) {
+		for await (const chunk of source) yield chunk;
+		return;
+	}
+
+	const reader = source.getReader();
+	try {
+		for (let read = await reader.read(); !read.done; read = await reader.read()) {
+			yield read.value;
 		}
+	} finally {
+		reader.releaseLock();
 	}
 }
@@ -0,0 +1,116 @@
+import type { Position } from "./diagnostic";
+
+/**
+ * Represents a table of the offsets where the lines of a source start.
+ *
+ * It is built once per source, so offsets are converted into lines and columns with a
+ * binary search instead of scanning the source every time. Lines end at `\n`, so `\r\n`
+ * line endings are handled too.
+ */
+export class LineIndex {
+	/** The maximum number of sources whose indexes are kept. */
+	private static readonly capacity = 16;
+
+	/** The indexes of the last sources, the most recently used being the last. */
+	private static readonly cache = new Map<string, LineIndex>();
+
+	/** The source the lines belong to. */
+	public readonly source: string;
+
+	/** The zero-based offsets where the lines start, in order. */
+	private readonly starts: number[];
+
+	/**
+	 * Creates a new LineIndex instance.
+	 *
+	 * @param source The source to index.
+	 */
+	constructor(source: string) {
+		this.source = source;
+		this.starts = [0];
+
+		for (let index = source.indexOf("\n"); index !== -1; index = source.indexOf("\n", index + 1)) {
+			this.starts.push(index + 1);
+		}
+	}
+
+	/**
+	 * Gets the index of a source, reusing the one built for it if it is among the last sources.
+	 *
+	 * Several sources are kept, since the child tokens of an inside are located in the inside
+	 * while their parents are located in the whole source.
+	 *
+	 * @param source The source to index.
+	 * @returns The index of the source.
+	 */
+	public static of(source: string): LineIndex {
+		const { cache, capacity } = LineIndex;
+
+		let index = cache.get(source);
+		if (index) {
+			cache.delete(source);
+		} else {
+			index = new LineIndex(source);
+			if (cache.size >= capacity) cache.delete(cache.keys().next().value as string);
+		}
+
+		cache.set(source, index);
+		return index;
+	}
+
+	/**
+	 * Gets the number of lines of the source.
+	 */
+	public get lines(): number {
+		return this.starts.length;
+	}
+
+	/**
+	 * Calculates the position of an offset of the source.
+	 *
+	 * @param offset The zero-based offset.
+	 * @param codePoints Whether the column is counted in code points instead of UTF-16 code units.
+	 * @returns The position of the offset.
+	 */
+	public locate(offset: number, codePoints = false): Position {
+		// Find the last line that starts at or before the offset.
+		let low = 0;
+		let high = this.starts.length - 1;
+		while (low < high) {
+			const middle = (low + high + 1) >> 1;
+			if (this.starts[middle] <= offset) {
+				low = middle;
+			} else {
+				high = middle - 1;
+			}
+		}
+
+		const start = this.starts[low];
+		let column = offset - start;
+
+		// Surrogate pairs are a single code point, so their second half is not counted.
+		if (codePoints) {
+			for (let index = start + 1; index < offset; index++) {
+				const code = this.source.charCodeAt(index);
+				const previous = this.source.charCodeAt(index - 1);
+				if (code >= 0xdc00 && code <= 0xdfff && previous >= 0xd800 && previous <= 0xdbff) {
+					column--;
+				}
+			}
+		}
+
+		return { offset, line: low + 1, column: column + 1 };
+	}
+
+	/**
+	 * Calculates the offset of a line and a column of the source.
+	 *
+	 * @param line The one-based line.
+	 * @param column The one-based column, in UTF-16 code units.
+	 * @returns The zero-based offset, clamped to the source.
+	 */
+	public offset(line: number, column: number): number {
+		const start = this.starts[Math.min(Math.max(line, 1), this.starts.length) - 1];
+		return Math.min(start + column - 1, this.source.length);
+	}
+}
@@ -1,3 +1,25 @@
+import { CodeWriter } from "./code.writer";
+import { Diagnostic, type Range } from "./diagnostic";
+
+/**
+ * Represents the JSON form of a node, as produced by `Node.toJSON` and revived by `Registry.revive`.
+ *
+ * The nodes in the value are replaced by `{ "$child": index }` references to the children.
+ */
+export interface NodeJSON {
+	/** The type of the node. */
+	readonly type: string;
+
+	/** The value of the node, with references in place of its children. */
+	readonly value: unknown;
+
+	/** The range of the source code the node originates from, if known. */
+	readonly location?: Range;
+
+	/** The JSON form of the nodes in the value, in order. */
+	readonly children?: NodeJSON[];
+}
+
 /**
  * Represents a generic Node in a tree or graph structure.
  *
@@ -12,6 +34,13 @@ export class Node<Type extends string, Value> {
 	public readonly type: Type;
 	public readonly value: Value;
 
+	/**
+	 * The range of the source code the Node originates from, if known.
+	 *
+	 * It is set from the token by `BaseTranspiler.nodify`, unless the competence sets it first.
+	 */
+	public location?: Range;
+
 	/**
 	 * Creates a new Node instance.
 	 *
@@ -24,21 +53,339 @@ export class Node<Type extends string, Value> {
 	}
 
 	/**
-	 * Creates a clone of the Node.
+	 * Creates a deep clone of the Node, keeping its class and location.
+	 *
+	 * The nodes, arrays and plain objects in the value are cloned too, the nodes through their own
+	 * `clone`, while other objects are shared. Subclasses with state of their own override it,
+	 * cloning that state on the result of `super.clone()`.
+	 *
+	 * @returns A new instance of the same class, with a cloned value.
+	 */
+	public clone(): this {
+		return this.update(cloned(this.value) as Value);
+	}
+
+	/**
+	 * Gets the nodes in the value of the Node, in order.
 	 *
-	 * @returns A new Node instance with the same type and value.
+	 * They are the value itself, or the nodes in its arrays and plain objects, without descending
+	 * into them. Nodes with other kinds of values override it along with `rebuild`.
 	 */
-	public clone(): Node<Type, Value> {
-		return new Node(this.type, this.value);
+	public get children(): Node<string, unknown>[] {
+		const children: Node<string, unknown>[] = [];
+		collect(this.value, children);
+		return children;
+	}
+
+	/**
+	 * Creates a copy of the Node with another value, keeping its class and location.
+	 *
+	 * @param value The value of the copy.
+	 * @returns The copy.
+	 */
+	public update(value: Value): this {
+		return Object.assign(Object.create(Object.getPrototypeOf(this)), this, { value });
+	}
+
+	/**
+	 * Creates a copy of the Node whose children are replaced, without changing the Node itself.
+	 *
+	 * A child in an array can be replaced with any number of nodes, while any other child can only
+	 * be replaced with a single node, or removed with none, which leaves `undefined` in its place.
+	 *
+	 * @param replace Gets the nodes replacing a child.
+	 * @returns The copy.
+	 */
+	public rebuild(replace: (child: Node<string, unknown>) => Node<string, unknown>[]): this {
+		return this.update(replaced(this.value, replace) as Value);
+	}
+
+	/**
+	 * Converts the Node into its JSON form, so it can be persisted and revived by `Registry.revive`.
+	 *
+	 * The value is expected to be made of JSON values and nodes, and is not validated.
+	 *
+	 * @returns The JSON form of the Node.
+	 */
+	public toJSON(): NodeJSON {
+		const children: NodeJSON[] = [];
+		const value = referenced(this.value, children);
+
+		return {
+			type: this.type,
+			value,
+			...(this.location && { location: this.location }),
+			...(children.length > 0 && { children }),
+		};
 	}
 
 	/**
 	 * Serializes the node.
 	 * This function is responsible for transpiling the Node into a string.
 	 *
+	 * Nodes either override it or `emit`, which it writes into a new `CodeWriter` by default.
+	 *
 	 * @returns A string representing the serialized Node.
 	 */
 	public serialize(): string {
-		return "UNIMPLEMENTED";
+		if (this.emit === Node.prototype.emit) return "UNIMPLEMENTED";
+		return new CodeWriter().node(this).toString();
+	}
+
+	/**
+	 * Writes the node into a code writer, which keeps the indentation of nested nodes and maps them.
+	 *
+	 * Nested nodes are written with `writer.node`. By default, it writes the result of `serialize`
+	 * if it is overridden, and `"UNIMPLEMENTED"` otherwise.
+	 *
+	 * @param writer The code writer.
+	 */
+	public emit(writer: CodeWriter): void {
+		writer.write(this.serialize === Node.prototype.serialize ? "UNIMPLEMENTED" : this.serialize());
+	}
+}
+
+/**
+ * Represents a construct of the source code that could not be converted into a node.
+ *
+ * Error nodes are produced by transpilers in recovery mode, so synthesis can continue
+ * after a failure. They serialize to an empty string.
+ */
+export class ErrorNode extends Node<"error", { source: string; diagnostic: Diagnostic }> {
+	/**
+	 * Creates a new ErrorNode instance.
+	 *
+	 * @param source The text of the construct that failed.
+	 * @param diagnostic The diagnostic describing the failure.
+	 */
+	constructor(source: string, diagnostic: Diagnostic) {
+		super("error", { source, diagnostic });
+	}
+
+	/**
+	 * Restores the diagnostic of a revived ErrorNode, which its JSON form holds as a plain object.
+	 *
+	 * @param value The value, as found in the JSON form.
+	 * @returns The value of the ErrorNode.
+	 */
+	public static revive(value: { source: string; diagnostic: Diagnostic }): ErrorNode["value"] {
+		return { ...value, diagnostic: new Diagnostic(value.diagnostic) };
+	}
+
+	public override serialize(): string {
+		return "";
+	}
+}
+
+/**
+ * Represents text of the source code that no competence matched.
+ *
+ * Text nodes are produced from the gap tokens of lexers with the `EmitText` option, so the
+ * text can be passed through to the output. They serialize to the text itself.
+ */
+export class TextNode extends Node<"text", string> {
+	/**
+	 * Creates a new TextNode instance.
+	 *
+	 * @param value The text.
+	 */
+	constructor(value: string) {
+		super("text", value);
+	}
+
+	public override serialize(): string {
+		return this.value;
+	}
+}
+
+/**
+ * Represents an operand of an expression, such as a number or a name.
+ *
+ * Operand nodes are produced by `ExpressionParser` by default. They serialize to the operand itself.
+ */
+export class OperandNode extends Node<"operand", string> {
+	/**
+	 * Creates a new OperandNode instance.
+	 *
+	 * @param value The text of the operand.
+	 */
+	constructor(value: string) {
+		super("operand", value);
 	}
+
+	public override serialize(): string {
+		return this.value;
+	}
+}
+
+/**
+ * Represents an operator applied to a single operand, either before or after it.
+ */
+export class UnaryNode extends Node<
+	"unary",
+	{ operator: string; prefix: boolean; operand: Node<string, unknown> }
+> {
+	/**
+	 * Creates a new UnaryNode instance.
+	 *
+	 * @param operator The symbol of the operator.
+	 * @param operand The operand.
+	 * @param prefix Whether the operator goes before the operand (default is `true`).
+	 */
+	constructor(operator: string, operand: Node<string, unknown>, prefix = true) {
+		super("unary", { operator, prefix, operand });
+	}
+
+	public override emit(writer: CodeWriter): void {
+		const { operator, prefix, operand } = this.value;
+
+		// Word operators, such as `not`, are kept apart from their operand.
+		const spaced = /[\w$]/.test(prefix ? operator.slice(-1) : operator[0]) ? " " : "";
+		if (prefix) {
+			writer.write(operator + spaced).node(operand);
+		} else {
+			writer.node(operand).write(spaced + operator);
+		}
+	}
+}
+
+/**
+ * Represents an operator applied between two operands.
+ */
+export class BinaryNode extends Node<
+	"binary",
+	{ operator: string; left: Node<string, unknown>; right: Node<string, unknown> }
+> {
+	/**
+	 * Creates a new BinaryNode instance.
+	 *
+	 * @param operator The symbol of the operator.
+	 * @param left The operand on the left.
+	 * @param right The operand on the right.
+	 */
+	constructor(operator: string, left: Node<string, unknown>, right: Node<string, unknown>) {
+		super("binary", { operator, left, right });
+	}
+
+	public override emit(writer: CodeWriter): void {
+		const { operator, left, right } = this.value;
+		writer.node(left).write(` ${operator} `).node(right);
+	}
+}
+
+/**
+ * Represents an expression between parentheses.
+ *
+ * The parentheses are kept as a node, so the serialized expression groups its operands the same way.
+ */
+export class GroupNode extends Node<"group", Node<string, unknown>> {
+	/**
+	 * Creates a new GroupNode instance.
+	 *
+	 * @param value The expression between the parentheses.
+	 */
+	constructor(value: Node<string, unknown>) {
+		super("group", value);
+	}
+
+	public override emit(writer: CodeWriter): void {
+		writer.write("(").node(this.value).write(")");
+	}
+}
+
+/**
+ * Collects the nodes in a value, without descending into them.
+ *
+ * @param value The value.
+ * @param children The nodes collected so far.
+ */
+function collect(value: unknown, children: Node<string, unknown>[]): void {
+	if (value instanceof Node) {
+		children.push(value);
+	} else if (Array.isArray(value)) {
+		for (const item of value) collect(item, children);
+	} else if (isPlain(value)) {
+		for (const item of Object.values(value)) collect(item, children);
+	}
+}
+
+/**
+ * Copies a value, replacing the nodes in it.
+ *
+ * @param value The value.
+ * @param replace Gets the nodes replacing a node.
+ * @returns The copy.
+ */
+function replaced(
+	value: unknown,
+	replace: (child: Node<string, unknown>) => Node<string, unknown>[],
+): unknown {
+	if (value instanceof Node) {
+		const nodes = replace(value);
+		if (nodes.length > 1) {
+			throw new Error(
+				`A "${value.type}" node can only be replaced with several nodes within an array.`,
+			);
+		}
+		return nodes[0];
+	}
+	if (Array.isArray(value)) {
+		return value.flatMap((item) =>
+			item instanceof Node ? replace(item) : [replaced(item, replace)],
+		);
+	}
+	if (isPlain(value)) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, replaced(item, replace)]),
+		);
+	}
+	return value;
+}
+
+/**
+ * Deeply copies the nodes, arrays and plain objects of a value.
+ *
+ * @param value The value.
+ * @returns The copy.
+ */
+function cloned(value: unknown): unknown {
+	if (value instanceof Node) return value.clone();
+	if (Array.isArray(value)) return value.map(cloned);
+	if (isPlain(value)) {
+		return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, cloned(item)]));
+	}
+	return value;
+}
+
+/**
+ * Copies a value, replacing the nodes in it with references to their JSON form.
+ *
+ * @param value The value.
+ * @param children The JSON form of the nodes replaced so far.
+ * @returns The copy.
+ */
+function referenced(value: unknown, children: NodeJSON[]): unknown {
+	if (value instanceof Node) {
+		children.push(value.toJSON());
+		return { $child: children.length - 1 };
+	}
+	if (Array.isArray(value)) return value.map((item) => referenced(item, children));
+	if (isPlain(value)) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, referenced(item, children)]),
+		);
+	}
+	return value;
+}
+
+/**
+ * Checks if a value is a plain object, rather than an instance of a class.
+ *
+ * @param value The value.
+ * @returns `true` if the value is a plain object.
+ */
+function isPlain(value: unknown): value is Record<string, unknown> {
+	if (typeof value !== "object" || value === null) return false;
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
 }
@@ -0,0 +1,422 @@
+import type { Node } from "./node";
+import { NodePath } from "./transform";
+
+/**
+ * Represents an error in the source of a selector.
+ */
+export class SelectorSyntaxError extends Error {
+	/** The position of the selector where the error was found. */
+	public readonly position: number;
+
+	constructor(message: string, selector: string, position: number) {
+		super(`${message} at position ${position} of "${selector}".`);
+		this.name = "SelectorSyntaxError";
+		this.position = position;
+	}
+}
+
+/**
+ * Represents a condition on a value of a node, such as `[name="fetch"]`.
+ */
+interface Attribute {
+	/** The keys leading to the value. */
+	readonly path: string[];
+
+	/** The operator comparing the value, or `undefined` if the value only has to exist. */
+	readonly operator?: "=" | "!=" | "^=" | "$=" | "*=";
+
+	/** The operand the value is compared with. */
+	readonly operand?: unknown;
+}
+
+/**
+ * Represents the conditions on a single node, such as `call[name="fetch"]`.
+ */
+interface Compound {
+	/** The type of the node, or `undefined` for any type. */
+	readonly type?: string;
+
+	/** The conditions on the values of the node. */
+	readonly attributes: Attribute[];
+}
+
+/**
+ * Represents a chain of conditions on a node and its ancestors, such as `function call`.
+ */
+interface Complex {
+	/** The conditions on each node, the last one being the matched node. */
+	readonly compounds: Compound[];
+
+	/** How each node relates to the next one: `">"` for its parent, `" "` for any ancestor. */
+	readonly combinators: (">" | " ")[];
+}
+
+/**
+ * Represents a compiled selector, matching nodes by their type, their values and their ancestors.
+ *
+ * The syntax follows CSS selectors:
+ *
+ * - `call` matches the nodes of type `call`, and `*` the nodes of any type.
+ * - `[name]` matches the nodes whose value has a `name`, and `[name="fetch"]` those where it is `"fetch"`.
+ *   Values are compared with `=`, `!=`, `^=` (starts with), `$=` (ends with) and `*=` (contains), and
+ *   operands are strings, numbers, `true`, `false`, `null` or regular expressions such as `/^fe/i`.
+ *   Other unquoted words are strings, so `[name=fetch]` is the same as `[name="fetch"]`.
+ *   Paths such as `[callee.name]` reach nested values, and `[value]` reaches the value itself.
+ * - `function call` matches the `call` nodes within a `function` node, and `function > call` those
+ *   directly within it.
+ * - `call, new` matches the nodes matching either selector.
+ *
+ * @example
+ * const fetches = Selector.parse('function call[name="fetch"]').all(program);
+ * for (const { node, parent } of fetches) {
+ *     console.log(node.location, parent?.node.type);
+ * }
+ */
+export class Selector {
+	/** The source of the selector. */
+	public readonly source: string;
+
+	/** The alternatives of the selector. */
+	private readonly alternatives: Complex[];
+
+	/**
+	 * Creates a new Selector instance.
+	 *
+	 * @param source The source of the selector.
+	 * @param alternatives The alternatives of the selector.
+	 */
+	private constructor(source: string, alternatives: Complex[]) {
+		this.source = source;
+		this.alternatives = alternatives;
+	}
+
+	/**
+	 * Compiles a selector.
+	 *
+	 * @param source The source of the selector.
+	 * @throws SelectorSyntaxError If the selector is malformed.
+	 * @returns The compiled selector.
+	 */
+	public static parse(source: string): Selector {
+		return new Selector(source, new SelectorParser(source).parse());
+	}
+
+	/**
+	 * Checks if a visited node matches the selector, so it can be used from visitors.
+	 *
+	 * @param path The path of the node.
+	 * @returns `true` if the node matches the selector.
+	 */
+	public matches(path: NodePath): boolean {
+		return this.alternatives.some((complex) =>
+			matchesFrom(complex, complex.compounds.length - 1, path),
+		);
+	}
+
+	/**
+	 * Finds the nodes of a tree that match the selector, in depth-first order.
+	 *
+	 * @param root The root of the tree.
+	 * @returns The paths of the matching nodes.
+	 */
+	public all(root: Node<string, unknown>): NodePath[] {
+		const found: NodePath[] = [];
+		const walk = (path: NodePath) => {
+			if (this.matches(path)) found.push(path);
+			for (const child of path.node.children) walk(new NodePath(child, path));
+		};
+
+		walk(new NodePath(root));
+		return found;
+	}
+
+	/**
+	 * Finds the first node of a tree that matches the selector, in depth-first order.
+	 *
+	 * @param root The root of the tree.
+	 * @returns The path of the matching node, or `undefined` if there is none.
+	 */
+	public first(root: Node<string, unknown>): NodePath | undefined {
+		const walk = (path: NodePath): NodePath | undefined => {
+			if (this.matches(path)) return path;
+			for (const child of path.node.children) {
+				const found = walk(new NodePath(child, path));
+				if (found) return found;
+			}
+			return undefined;
+		};
+
+		return walk(new NodePath(root));
+	}
+}
+
+/**
+ * Finds the nodes of a tree that match a selector, in depth-first order.
+ *
+ * @param root The root of the tree.
+ * @param selector The selector, or its source.
+ * @throws SelectorSyntaxError If the selector is malformed.
+ * @returns The paths of the matching nodes.
+ */
+export function query(root: Node<string, unknown>, selector: Selector | string): NodePath[] {
+	return (typeof selector === "string" ? Selector.parse(selector) : selector).all(root);
+}
+
+/**
+ * Represents a parser of the source of selectors.
+ */
+class SelectorParser {
+	/** The source of the selector. */
+	private readonly source: string;
+
+	/** The position of the parser in the source. */
+	private index = 0;
+
+	/**
+	 * Creates a new SelectorParser instance.
+	 *
+	 * @param source The source of the selector.
+	 */
+	constructor(source: string) {
+		this.source = source;
+	}
+
+	/**
+	 * Parses the alternatives of the selector.
+	 *
+	 * @returns The alternatives.
+	 */
+	public parse(): Complex[] {
+		const alternatives = [this.complex()];
+		while (this.eat(",")) {
+			alternatives.push(this.complex());
+		}
+
+		this.space();
+		if (this.index < this.source.length) {
+			this.fail(`Unexpected "${this.source[this.index]}"`);
+		}
+		return alternatives;
+	}
+
+	/**
+	 * Parses a chain of compounds joined by combinators.
+	 */
+	private complex(): Complex {
+		this.space();
+		const compounds = [this.compound()];
+		const combinators: (">" | " ")[] = [];
+
+		while (this.index < this.source.length) {
+			const spaced = this.space();
+			if (this.eat(">")) {
+				this.space();
+				combinators.push(">");
+			} else if (spaced && this.index < this.source.length && this.source[this.index] !== ",") {
+				combinators.push(" ");
+			} else {
+				break;
+			}
+			compounds.push(this.compound());
+		}
+
+		return { compounds, combinators };
+	}
+
+	/**
+	 * Parses a type followed by attributes.
+	 */
+	private compound(): Compound {
+		const any = this.eat("*");
+		const type = any ? undefined : this.match(/[A-Za-z_$][\w$-]*/y);
+
+		const attributes: Attribute[] = [];
+		while (this.eat("[")) {
+			attributes.push(this.attribute());
+		}
+
+		if (!any && !type && attributes.length === 0) {
+			this.fail("Expected a type or an attribute");
+		}
+		return { type, attributes };
+	}
+
+	/**
+	 * Parses the inside of an attribute, up to its closing bracket.
+	 */
+	private attribute(): Attribute {
+		this.space();
+		const path = this.match(/[\w$]+(?:\.[\w$]+)*/y)?.split(".");
+		if (!path) this.fail("Expected the name of an attribute");
+
+		this.space();
+		const operator = this.match(/!=|\^=|\$=|\*=|=/y) as Attribute["operator"];
+
+		let operand: unknown;
+		if (operator) {
+			this.space();
+			operand = this.operand();
+			this.space();
+		}
+
+		if (!this.eat("]")) this.fail('Expected "]"');
+		return { path: path ?? [], operator, operand };
+	}
+
+	/**
+	 * Parses the operand of an attribute.
+	 */
+	private operand(): unknown {
+		const quoted = this.match(/"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'/y);
+		if (quoted) return quoted.slice(1, -1).replace(/\\(.)/g, "$1");
+
+		const start = this.index;
+		const expression = this.match(/\/((?:\\.|[^/\\])+)\/([a-z]*)/y);
+		if (expression) {
+			const end = expression.lastIndexOf("/");
+			const flags = expression.slice(end + 1);
+
+			// Global and sticky expressions keep their last index between tests, so they would match every other node.
+			if (/[gy]/.test(flags)) {
+				this.index = start + end + 1;
+				this.fail('Regular expressions cannot have the "g" or "y" flags');
+			}
+			try {
+				return new RegExp(expression.slice(1, end), flags);
+			} catch (error) {
+				this.index = start;
+				this.fail(`Invalid regular expression (${(error as Error).message})`);
+			}
+		}
+
+		// Unlike JSON, leading zeros are allowed.
+		const number = this.match(/-?\d+(?:\.\d+)?(?![\w$-])/y);
+		if (number !== undefined) return Number(number);
+
+		const keyword = this.match(/(?:true|false|null)(?![\w$-])/y);
+		if (keyword !== undefined) return JSON.parse(keyword);
+
+		// Other words are strings, as in CSS.
+		const word = this.match(/[\w$-]+/y);
+		if (word === undefined) {
+			this.fail("Expected a string, a number, a boolean, null or a regular expression");
+		}
+		return word;
+	}
+
+	/**
+	 * Skips whitespace.
+	 *
+	 * @returns `true` if there was any whitespace.
+	 */
+	private space(): boolean {
+		return this.match(/\s+/y) !== undefined;
+	}
+
+	/**
+	 * Consumes a string, if it is next.
+	 *
+	 * @param text The string.
+	 * @returns `true` if it was consumed.
+	 */
+	private eat(text: string): boolean {
+		if (!this.source.startsWith(text, this.index)) return false;
+		this.index += text.length;
+		return true;
+	}
+
+	/**
+	 * Consumes the match of a sticky pattern, if there is one.
+	 *
+	 * @param pattern The sticky pattern.
+	 * @returns The match, or `undefined` if there is none.
+	 */
+	private match(pattern: RegExp): string | undefined {
+		pattern.lastIndex = this.index;
+		const match = pattern.exec(this.source)?.[0];
+		if (match !== undefined) this.index += match.length;
+		return match;
+	}
+
+	/**
+	 * Stops parsing at the current position.
+	 *
+	 * @param message The reason.
+	 */
+	private fail(message: string): never {
+		throw new SelectorSyntaxError(message, this.source, this.index);
+	}
+}
+
+/**
+ * Checks if a node and its ancestors match the compounds of a chain, up to an index.
+ *
+ * @param complex The chain.
+ * @param index The index of the compound the node must match.
+ * @param path The path of the node.
+ * @returns `true` if they match.
+ */
+function matchesFrom(complex: Complex, index: number, path: NodePath): boolean {
+	if (!matchesCompound(complex.compounds[index], path.node)) return false;
+	if (index === 0) return true;
+
+	if (complex.combinators[index - 1] === ">") {
+		return path.parent !== undefined && matchesFrom(complex, index - 1, path.parent);
+	}
+
+	for (let ancestor = path.parent; ancestor; ancestor = ancestor.parent) {
+		if (matchesFrom(complex, index - 1, ancestor)) return true;
+	}
+	return false;
+}
+
+/**
+ * Checks if a node matches a compound.
+ *
+ * @param compound The compound.
+ * @param node The node.
+ * @returns `true` if it matches.
+ */
+function matchesCompound({ type, attributes }: Compound, node: Node<string, unknown>): boolean {
+	if (type !== undefined && node.type !== type) return false;
+
+	return attributes.every(({ path, operator, operand }) => {
+		const found = lookup(node, path);
+		if (!operator) return found !== undefined;
+		if (operand instanceof RegExp) {
+			const matched = found !== undefined && operand.test(String(found));
+			return operator === "!=" ? !matched : matched;
+		}
+
+		switch (operator) {
+			case "=":
+				return found === operand;
+			case "!=":
+				return found !== operand;
+			case "^=":
+				return found !== undefined && String(found).startsWith(String(operand));
+			case "$=":
+				return found !== undefined && String(found).endsWith(String(operand));
+			default:
+				return found !== undefined && String(found).includes(String(operand));
+		}
+	});
+}
+
+/**
+ * Looks a path up in the value of a node, or in the value itself when the path starts with `value`.
+ *
+ * @param node The node.
+ * @param path The keys leading to the value.
+ * @returns The value, or `undefined` if it does not exist.
+ */
+function lookup(node: Node<string, unknown>, [first, ...rest]: string[]): unknown {
+	let current: unknown = node.value;
+	const keys = first === "value" ? rest : [first, ...rest];
+
+	for (const key of keys) {
+		if (typeof current !== "object" || current === null || !(key in current)) return undefined;
+		current = (current as Record<string, unknown>)[key];
+	}
+	return current;
+}
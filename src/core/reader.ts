@@ -1,6 +1,7 @@
-import { promises as fs } from "node:fs";
+import { promises as fs, createReadStream } from "node:fs";
 import path from "node:path";
 import type { BaseTranspiler } from "./base.transpiler";
+import type { Token } from "./token";
 
 /**
  * Represents a reader that reads files and transpiles their content.
@@ -37,4 +38,16 @@ export class Reader<Transpiler extends BaseTranspiler> {
 		const content = await fs.readFile(abs_path, "utf-8");
 		return this.transpiler.transpile(content);
 	}
+
+	/**
+	 * Tokenizes a file from the specified path as it is read, without reading it whole into memory.
+	 *
+	 * @param mod The relative path to the file to be tokenized.
+	 * @returns The tokens of the file content.
+	 */
+	public tokenizeFile(mod: string): AsyncGenerator<Token<Transpiler>> {
+		const abs_path = path.join(this.basePath, mod);
+		const stream = createReadStream(abs_path, { encoding: "utf-8" });
+		return this.transpiler.lexer.stream(stream, undefined, { file: mod });
+	}
 }
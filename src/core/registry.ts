@@ -1,5 +1,7 @@
-import type { Node } from "./node";
+import { CodeWriter } from "./code.writer";
+import { Node, type NodeJSON } from "./node";
 import type { Schema } from "./schema";
+import { SourceMap } from "./source.map";
 
 export class SchemaNotFoundError extends Error {
 	constructor(type: string) {
@@ -8,6 +10,26 @@ export class SchemaNotFoundError extends Error {
 	}
 }
 
+/**
+ * Represents the class of a node, whose instances are revived from JSON.
+ *
+ * Classes whose values hold more than JSON values and nodes restore them with a static `revive`.
+ */
+export type NodeClass = NodeConstructor & {
+	/**
+	 * Restores the value of a node from its JSON form, with the children already revived.
+	 *
+	 * @param value The value, as found in the JSON form.
+	 * @returns The value of the node.
+	 */
+	revive?(value: unknown): unknown;
+};
+
+/**
+ * Represents the constructor of a node, whatever its parameters.
+ */
+type NodeConstructor = abstract new (...args: never[]) => Node<string, unknown>;
+
 /**
  * Represents a registry that maps schema types to their corresponding schemas.
  *
@@ -16,6 +38,9 @@ export class SchemaNotFoundError extends Error {
 export class Registry<Type extends string> extends Map<Type, Schema<unknown>> {
 	public readonly serializations: Map<Node<Type, unknown>, string>;
 
+	/** The classes the nodes are revived into, by type. */
+	public readonly classes: Map<string, NodeClass>;
+
 	/**
 	 * Creates a new registry.
 	 *
@@ -24,6 +49,7 @@ export class Registry<Type extends string> extends Map<Type, Schema<unknown>> {
 	constructor(schemas?: Record<Type, Schema<unknown>> | null | undefined) {
 		super();
 		this.serializations = new Map();
+		this.classes = new Map();
 		if (schemas) {
 			for (const [key, value] of Object.entries(schemas)) {
 				this.set(key as Type, value as Schema<unknown>);
@@ -106,6 +132,94 @@ export class Registry<Type extends string> extends Map<Type, Schema<unknown>> {
 		throw new Error(`Node of type "${node.type}" failed validation.`);
 	}
 
+	/**
+	 * Resolves a sequence of nodes into code, generating a source map along the way.
+	 *
+	 * Each node is validated and written with a `CodeWriter`, joined with the separator. The
+	 * writer maps every located node, nested ones included, and the lines it starts, to the start
+	 * of its location, in the file of the location if it has one, or in the given source otherwise.
+	 *
+	 * @template Value The type of the node values.
+	 * @param nodes The nodes to resolve, usually the ones synthesized from the source.
+	 * @param options The options for the generation.
+	 * @param options.source The name of the source the nodes originate from.
+	 * @param options.content The content of the source, embedded into the map.
+	 * @param options.file The name of the generated file.
+	 * @param options.separator The string used to join the resolved nodes (default is `"\n"`).
+	 * @throws Error If a node fails validation.
+	 * @throws SchemaNotFoundError If no schema is found for the type of a node.
+	 * @returns The generated code and its source map.
+	 */
+	public generate<Value>(
+		nodes: Iterable<Node<Type, Value>>,
+		{
+			source,
+			content,
+			file,
+			separator = "\n",
+		}: { source: string; content?: string; file?: string; separator?: string },
+	): { code: string; map: SourceMap } {
+		const map = new SourceMap(file);
+		map.addSource(source, content);
+
+		const writer = new CodeWriter({ map, source });
+		writer.join(nodes, separator, (node) => {
+			if (!this.validate(node)) {
+				throw new Error(`Node of type "${node.type}" failed validation.`);
+			}
+			writer.node(node);
+		});
+
+		return { code: writer.toString(), map };
+	}
+
+	/**
+	 * Binds the type of a node to its class, so the nodes of the type are revived into it.
+	 *
+	 * @param type The type of the nodes.
+	 * @param Class The class of the nodes.
+	 * @returns The registry, so bindings can be chained.
+	 */
+	public bind(type: Type, Class: NodeClass): this {
+		this.classes.set(type, Class);
+		return this;
+	}
+
+	/**
+	 * Revives a node from its JSON form, as produced by `Node.toJSON`.
+	 *
+	 * The nodes are revived into the classes bound to their types, without calling their constructors,
+	 * or into plain nodes, and validated against the schemas of their types. The values are restored by
+	 * the `revive` of the classes that have one.
+	 *
+	 * @param json The JSON form of the node, or of several nodes.
+	 * @throws SchemaNotFoundError If a type has neither a schema nor a class.
+	 * @throws Error If a node fails validation.
+	 * @returns The revived node, or nodes.
+	 */
+	public revive(json: NodeJSON): Node<Type, unknown>;
+	public revive(json: NodeJSON[]): Node<Type, unknown>[];
+	public revive(json: NodeJSON | NodeJSON[]): Node<Type, unknown> | Node<Type, unknown>[] {
+		if (Array.isArray(json)) return json.map((item) => this.revive(item));
+
+		const type = json.type as Type;
+		const Class = this.classes.get(type);
+		if (!Class && !this.has(type)) {
+			throw new SchemaNotFoundError(type);
+		}
+
+		const children = (json.children ?? []).map((child) => this.revive(child));
+		const node: Node<Type, unknown> = Object.create((Class ?? Node).prototype);
+		const value = dereferenced(json.value, children);
+		Object.assign(node, { type, value: Class?.revive ? Class.revive(value) : value });
+		if (json.location) node.location = json.location;
+
+		if (this.has(type) && !this.validate(node)) {
+			throw new Error(`Node of type "${type}" failed validation.`);
+		}
+		return node;
+	}
+
 	/**
 	 * Serializes a node, using a cache to avoid redundant operations.
 	 *
@@ -135,3 +249,21 @@ export class Registry<Type extends string> extends Map<Type, Schema<unknown>> {
 		return super.has(type);
 	}
 }
+
+/**
+ * Copies a value, replacing the references to children with the revived children.
+ *
+ * @param value The value, with references in place of the children.
+ * @param children The revived children.
+ * @returns The copy.
+ */
+function dereferenced(value: unknown, children: Node<string, unknown>[]): unknown {
+	if (Array.isArray(value)) return value.map((item) => dereferenced(item, children));
+	if (typeof value === "object" && value !== null) {
+		if ("$child" in value && typeof value.$child === "number") return children[value.$child];
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, dereferenced(item, children)]),
+		);
+	}
+	return value;
+}
@@ -0,0 +1,93 @@
+/**
+ * Represents the types arguments can be converted into.
+ *
+ * - `string`: The text of the argument, trimmed.
+ * - `number`: A decimal, hexadecimal, octal or binary number, as `Number` parses it.
+ * - `boolean`: Either `true` or `false`.
+ */
+export type ArgumentType = "string" | "number" | "boolean";
+
+/**
+ * Represents a parameter of the signature of a competence.
+ *
+ * @template Type The type the argument is converted into.
+ */
+export interface Parameter<Type extends ArgumentType = ArgumentType> {
+	/** The name of the parameter, used as the key of its argument. */
+	readonly name: string;
+
+	/** The type the argument is converted into. */
+	readonly type: Type;
+
+	/** Whether the argument can be left out or empty. */
+	readonly optional?: boolean;
+
+	/** The value of the argument when it is left out or empty, which makes it optional. */
+	readonly default?: Converted<Type>;
+
+	/** Whether the parameter collects the rest of the arguments into an array. It must be the last one. */
+	readonly rest?: boolean;
+}
+
+/**
+ * Represents the value an argument of a given type is converted into.
+ *
+ * @template Type The type of the argument.
+ */
+export type Converted<Type extends ArgumentType> = Type extends "number"
+	? number
+	: Type extends "boolean"
+		? boolean
+		: string;
+
+/**
+ * Represents the converted arguments of a signature, by parameter name.
+ *
+ * Declare the signature `as const` so the names and types of the parameters are known.
+ *
+ * @template Signature The parameters of the signature.
+ *
+ * @example
+ * const signature = [
+ *     { name: "base", type: "number" },
+ *     { name: "round", type: "boolean", default: false },
+ * ] as const;
+ *
+ * type Values = ArgumentsOf<typeof signature>; // { base: number; round: boolean }
+ */
+export type ArgumentsOf<Signature extends readonly Parameter[]> = {
+	[Item in Signature[number] as Item["name"]]: Item extends { rest: true }
+		? Converted<Item["type"]>[]
+		: Item extends { default: unknown }
+			? Converted<Item["type"]>
+			: Item extends { optional: true }
+				? Converted<Item["type"]> | undefined
+				: Converted<Item["type"]>;
+};
+
+/**
+ * Converts the text of an argument into a type.
+ *
+ * @param type The type to convert into.
+ * @param text The trimmed text of the argument.
+ * @returns The converted value, or `undefined` if the text is not of the type.
+ */
+export function convert<Type extends ArgumentType>(
+	type: Type,
+	text: string,
+): Converted<Type> | undefined {
+	switch (type) {
+		case "number": {
+			const value = Number(text);
+			return (text === "" || Number.isNaN(value) ? undefined : value) as
+				| Converted<Type>
+				| undefined;
+		}
+		case "boolean":
+			return (text === "true" ? true : text === "false" ? false : undefined) as
+				| Converted<Type>
+				| undefined;
+		default:
+			return text as Converted<Type>;
+	}
+}
@@ -0,0 +1,191 @@
+import { vlq } from "@common/vlq";
+
+/**
+ * Represents a position used by source maps, with one-based lines and columns.
+ */
+export interface MapPosition {
+	readonly line: number;
+	readonly column: number;
+}
+
+/**
+ * Represents a link between a position of the generated code and a position of a source.
+ */
+export interface Mapping {
+	/** The position in the generated code. */
+	readonly generated: MapPosition;
+
+	/** The position in the source. */
+	readonly original: MapPosition;
+
+	/** The name of the source, as added with `SourceMap.addSource`. */
+	readonly source: string;
+
+	/** The original name of the symbol at the position, if any. */
+	readonly name?: string;
+}
+
+/**
+ * Represents the JSON representation of a Source Map v3.
+ *
+ * @see https://sourcemaps.info/spec.html
+ */
+export interface SourceMapV3 {
+	version: 3;
+	file?: string;
+	sourceRoot?: string;
+	sources: string[];
+	sourcesContent: (string | null)[];
+	names: string[];
+	mappings: string;
+}
+
+/**
+ * Represents a source map linking generated code back to its sources.
+ */
+export class SourceMap {
+	/** The name of the generated file. */
+	public readonly file?: string;
+
+	/** The names of the sources, in order. */
+	public readonly sources: string[];
+
+	/** The content of the sources, in the same order as `sources`. */
+	public readonly sourcesContent: (string | null)[];
+
+	/** The symbol names referenced by the mappings. */
+	public readonly names: string[];
+
+	/** The mappings added so far. */
+	private readonly mappings: Mapping[];
+
+	/**
+	 * Creates a new SourceMap instance.
+	 *
+	 * @param file The name of the generated file.
+	 */
+	constructor(file?: string) {
+		this.file = file;
+		this.sources = [];
+		this.sourcesContent = [];
+		this.names = [];
+		this.mappings = [];
+	}
+
+	/**
+	 * Adds a source to the map. Adding the same source twice updates its content.
+	 *
+	 * @param source The name of the source.
+	 * @param content The content of the source, embedded so tools do not need to read it.
+	 */
+	public addSource(source: string, content?: string): void {
+		const index = this.sources.indexOf(source);
+		if (index === -1) {
+			this.sources.push(source);
+			this.sourcesContent.push(content ?? null);
+		} else if (content !== undefined) {
+			this.sourcesContent[index] = content;
+		}
+	}
+
+	/**
+	 * Adds a mapping to the map. Its source is added if it was not yet.
+	 *
+	 * @param mapping The mapping to add.
+	 */
+	public addMapping(mapping: Mapping): void {
+		this.addSource(mapping.source);
+		if (mapping.name !== undefined && !this.names.includes(mapping.name)) {
+			this.names.push(mapping.name);
+		}
+		this.mappings.push(mapping);
+	}
+
+	/**
+	 * Encodes the mappings as VLQ segments.
+	 *
+	 * @returns The encoded mappings.
+	 */
+	public encode(): string {
+		const sorted = [...this.mappings].sort(
+			(a, b) => a.generated.line - b.generated.line || a.generated.column - b.generated.column,
+		);
+
+		// Every field but the generated column is relative to the previous segment in the file.
+		let line = 1;
+		let column = 0;
+		let source = 0;
+		let originalLine = 0;
+		let originalColumn = 0;
+		let name = 0;
+
+		let encoded = "";
+		let segments: string[] = [];
+
+		for (const mapping of sorted) {
+			while (line < mapping.generated.line) {
+				encoded += `${segments.join(",")};`;
+				segments = [];
+				column = 0; // The generated column is relative to the line.
+				line++;
+			}
+
+			const sourceIndex = this.sources.indexOf(mapping.source);
+			let segment =
+				vlq(mapping.generated.column - 1 - column) +
+				vlq(sourceIndex - source) +
+				vlq(mapping.original.line - 1 - originalLine) +
+				vlq(mapping.original.column - 1 - originalColumn);
+
+			column = mapping.generated.column - 1;
+			source = sourceIndex;
+			originalLine = mapping.original.line - 1;
+			originalColumn = mapping.original.column - 1;
+
+			if (mapping.name !== undefined) {
+				const nameIndex = this.names.indexOf(mapping.name);
+				segment += vlq(nameIndex - name);
+				name = nameIndex;
+			}
+
+			segments.push(segment);
+		}
+
+		return encoded + segments.join(",");
+	}
+
+	/**
+	 * Returns the JSON representation of the source map.
+	 *
+	 * @returns The Source Map v3 object.
+	 */
+	public toJSON(): SourceMapV3 {
+		return {
+			version: 3,
+			...(this.file === undefined ? {} : { file: this.file }),
+			sources: [...this.sources],
+			sourcesContent: [...this.sourcesContent],
+			names: [...this.names],
+			mappings: this.encode(),
+		};
+	}
+
+	/**
+	 * Returns the source map serialized as JSON.
+	 *
+	 * @returns The serialized source map.
+	 */
+	public toString(): string {
+		return JSON.stringify(this.toJSON());
+	}
+
+	/**
+	 * Returns a comment embedding the source map, to be appended to the generated JavaScript.
+	 *
+	 * @returns The `sourceMappingURL` comment with the map as a data URL.
+	 */
+	public toComment(): string {
+		const data = Buffer.from(this.toString(), "utf-8").toString("base64");
+		return `//# sourceMappingURL=data:application/json;charset=utf-8;base64,${data}`;
+	}
+}
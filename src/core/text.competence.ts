@@ -0,0 +1,21 @@
+import { BaseCompetence, type Patterns } from "./base.competence";
+import type { BaseTranspiler } from "./base.transpiler";
+import { TextNode } from "./node";
+import type { Token } from "./token";
+
+/**
+ * Represents the competence of the text that no other competence matches.
+ *
+ * It is not declared like the other competences: lexers with the `EmitText` option use it
+ * for the tokens of the gaps between matches, and resolve them into `TextNode`s.
+ *
+ * @template Transpiler The type of the transpiler.
+ */
+export class TextCompetence<Transpiler extends BaseTranspiler> extends BaseCompetence<Transpiler> {
+	public readonly identifier = "akore:text";
+	public readonly patterns: Patterns = { foremost: /[\s\S]+/ };
+
+	resolve({ total }: Token<Transpiler>): TextNode {
+		return new TextNode(total);
+	}
+}
@@ -1,5 +1,20 @@
-import { type BaseCompetence, LexicalFlags } from "./base.competence";
+import {
+	type BaseCompetence,
+	LexicalFlags,
+	type Nested,
+	scan,
+	skipLiteral,
+} from "./base.competence";
 import type { BaseTranspiler } from "./base.transpiler";
+import {
+	Diagnostic,
+	DiagnosticCode,
+	DiagnosticError,
+	type Position,
+	type Range,
+	locate,
+} from "./diagnostic";
+import type { Production } from "./grammar";
 
 /**
  * Represents the previous and subsequent tokens that has been consumed.
@@ -18,6 +33,17 @@ export interface Eated<Transpiler extends BaseTranspiler> {
 	after: Token<Transpiler>[];
 }
 
+/**
+ * Represents the text around a token that no competence matched, such as whitespace and comments.
+ */
+export interface Trivia {
+	/** The text before the token, after the trailing trivia of the previous one. */
+	leading: string;
+
+	/** The text after the token, up to the end of its line, or of the input for the last token. */
+	trailing: string;
+}
+
 /**
  * Represents a token in the lexer.
  *
@@ -37,24 +63,72 @@ export class Token<Transpiler extends BaseTranspiler> {
 	/** The previous and subsequent tokens that has been consumed. */
 	public eated: Eated<Transpiler>;
 
+	/** The tokens after the token that follow the grammar of its competence, if it has one. */
+	public production?: Production<Transpiler>;
+
 	/** The text inside the token (parameters). */
 	public inside?: string;
 
+	/** The identifier of the source file the token belongs to, if known. */
+	public readonly file?: string;
+
+	/** The text around the token, set when the lexer preserves trivia. */
+	public trivia?: Trivia;
+
+	/** The lexer modes entered when the token was matched, the current one being the last. */
+	public readonly stack?: readonly string[];
+
+	/**
+	 * The position of the input of the match in the whole source, if the input is only a part of it.
+	 *
+	 * The start and end indexes of the token are relative to the input, while its range is not.
+	 */
+	public readonly origin?: Position;
+
+	/** Whether the columns of the token are counted in code points instead of UTF-16 code units. */
+	public readonly codePoints: boolean;
+
+	/** Whether the inside reached the end of the input before its closer. */
+	private unclosed = false;
+
+	/** The child tokens of the inside, once tokenized, or `null` if there are none. */
+	private nested?: Nested<Transpiler> | null;
+
 	/**
 	 * Creates a new Token instance.
 	 *
 	 * @param competence The competence associated with the token.
 	 * @param match The regular expression match array.
+	 * @param file The identifier of the source file the token belongs to.
+	 * @param stack The lexer modes entered when the token was matched.
+	 * @param origin The position of the input of the match in the whole source.
+	 * @param codePoints Whether the columns of the token are counted in code points.
+	 * @param maxDepth The maximum depth of the structures nested in the inside.
+	 * @throws {DiagnosticError} If the structures nested in the inside are deeper than `maxDepth`.
 	 */
 	constructor({
 		competence,
 		match,
+		file,
+		stack,
+		origin,
+		codePoints = false,
+		maxDepth = Number.POSITIVE_INFINITY,
 	}: {
 		competence: BaseCompetence<Transpiler>;
 		match: RegExpMatchArray;
+		file?: string;
+		stack?: readonly string[];
+		origin?: Position;
+		codePoints?: boolean;
+		maxDepth?: number;
 	}) {
 		this.competence = competence;
 		this.match = match;
+		this.file = file;
+		this.stack = stack;
+		this.origin = origin;
+		this.codePoints = codePoints;
 		this.eated = { before: [], after: [] };
 
 		// Check if the match has an index and input
@@ -74,58 +148,121 @@ export class Token<Transpiler extends BaseTranspiler> {
 					throw new Error("Inside processing requires a closer.");
 				}
 
-				// Get the text after the match
-				const after = match.input.slice(match.index + match[0].length);
+				const { input } = match;
+
+				// The position right after the match
+				let position = match.index + match[0].length;
 
 				// Check if the opener is present next to the match
-				if (after && (forced || opener?.test(after[0]))) {
-					this.opener = forced ? "" : after[0]; // Set the opener
+				const opened = forced ? "" : scan(opener, input, position);
+				if (position < input.length && opened !== undefined) {
+					this.opener = opened; // Set the opener
 					this.inside = ""; // Initialize the inside
+					position += opened.length;
 
-					// Loop through the text after the match
-					for (let i = 1, depth = 0; i < after.length; i++) {
-						const char = after[i];
+					// Loop through the text after the opener
+					for (let depth = 0; position < input.length; ) {
+						// Check if a quoted or escaped text starts here
+						// If so, it is kept as is, since no delimiter inside it counts
+						const literal = skipLiteral(competence.patterns, input, position);
+						if (literal) {
+							this.inside += input.slice(position, literal.end);
+							position = literal.end;
+							continue;
+						}
+
+						const closed = scan(closer, input, position);
 
 						// Check if the closer is present and the depth is 0
 						// This means the end of the inside has been reached
-						if (competence.patterns.closer?.test(char) && depth === 0) {
-							this.closer = char;
+						if (closed !== undefined && depth === 0) {
+							this.closer = closed;
 							break;
 						}
 
 						// Check if the opener is present
 						// This means the depth should be increased
-						if (opener?.test(char)) {
-							depth++;
+						const nested = scan(opener, input, position);
+						if (nested !== undefined) {
+							if (++depth > maxDepth) {
+								throw new DiagnosticError(
+									new Diagnostic({
+										code: DiagnosticCode.LimitExceeded,
+										message: `The structures are nested deeper than the limit of ${maxDepth}.`,
+										range: {
+											start: locate(input, position, origin, codePoints),
+											end: locate(input, position + nested.length, origin, codePoints),
+											file,
+										},
+									}),
+								);
+							}
+							this.inside += nested;
+							position += nested.length;
+							continue;
 						}
 
 						// Check if the closer is present (the depth is not 0 cuz it would have been caught above)
 						// This means the depth should be decreased
-						if (closer.test(char)) {
+						if (closed !== undefined) {
 							depth--;
+							this.inside += closed;
+							position += closed.length;
+							continue;
 						}
 
-						// Check if the character is allowed inside the inside
+						// Check if the text is allowed inside the inside
 						// If not, the character should be ignored
-						if (inside === undefined || inside?.test(char)) {
-							this.inside += char;
+						const text = inside === undefined ? input[position] : scan(inside, input, position);
+						if (text !== undefined) {
+							this.inside += text;
+							position += text.length;
 							continue;
 						}
 
 						// Check if the competence is unstoppable
 						// If so, the current character should be ignored and continue to the next
 						if (flags & LexicalFlags.UNSTOPPABLE) {
+							position++;
 							continue;
 						}
 
 						// If none of the above conditions are met, stop the loop
 						break;
 					}
+
+					// The closer may be beyond the end of the input, if it is only a part of the source
+					this.unclosed = this.closer === "" && position >= input.length;
 				}
 			}
 		}
 	}
 
+	/**
+	 * Creates a copy of the token moved to another position, as the text before it changed.
+	 *
+	 * @param delta The number of characters the token is moved by.
+	 * @param input The input string after the change.
+	 * @returns The moved token.
+	 */
+	public shift(delta: number, input: string): Token<Transpiler> {
+		const match = [...this.match] as RegExpMatchArray;
+		match.index = this.start + delta;
+		match.input = input;
+		match.groups = this.match.groups;
+
+		const token = new Token({
+			competence: this.competence,
+			match,
+			file: this.file,
+			stack: this.stack,
+			origin: this.origin,
+			codePoints: this.codePoints,
+		});
+		if (this.trivia) token.trivia = { ...this.trivia };
+		return token;
+	}
+
 	/**
 	 * Gets the start index of the token.
 	 *
@@ -135,6 +272,25 @@ export class Token<Transpiler extends BaseTranspiler> {
 		return this.match.index ?? 0;
 	}
 
+	/**
+	 * Gets the index where the inside of the token starts, right after its opener.
+	 *
+	 * @returns The start index of the inside, or `undefined` if the token has no inside.
+	 */
+	public get insideStart(): number | undefined {
+		if (this.inside === undefined) return undefined;
+		return this.start + this.match[0].length + this.opener.length;
+	}
+
+	/**
+	 * Gets whether the inside of the token reached the end of the input before its closer.
+	 *
+	 * @returns `true` if the inside is not closed within the input.
+	 */
+	public get open(): boolean {
+		return this.unclosed;
+	}
+
 	/**
 	 * Gets the end index of the token.
 	 *
@@ -150,7 +306,7 @@ export class Token<Transpiler extends BaseTranspiler> {
 	 * @returns The line number of the token.
 	 */
 	public get line(): number {
-		return 1 + (this.match.input?.slice(0, this.start).match(/\n/g)?.length ?? 0);
+		return locate(this.match.input ?? "", this.start, this.origin, this.codePoints).line;
 	}
 
 	/**
@@ -159,19 +315,42 @@ export class Token<Transpiler extends BaseTranspiler> {
 	 * @returns The column number of the token.
 	 */
 	public get column(): number {
-		return this.start - (this.match.input?.lastIndexOf("\n", this.start) ?? 0);
+		return locate(this.match.input ?? "", this.start, this.origin, this.codePoints).column;
+	}
+
+	/**
+	 * Gets the range of the source code covered by the token.
+	 *
+	 * @returns The range of the token.
+	 */
+	public get range(): Range {
+		const input = this.match.input ?? "";
+		return {
+			start: locate(input, this.start, this.origin, this.codePoints),
+			end: locate(input, this.end, this.origin, this.codePoints),
+			file: this.file,
+		};
 	}
 
 	/**
 	 * Gets the total string of the token.
 	 */
 	public get total(): string {
-		if (this.inside) {
+		if (this.inside !== undefined) {
 			return this.match[0] + this.opener + this.inside + this.closer;
 		}
 		return this.match[0];
 	}
 
+	/**
+	 * Gets the total string of the token along with its trivia.
+	 *
+	 * Joining it for every token rebuilds the source when the lexer preserves trivia.
+	 */
+	public get full(): string {
+		return (this.trivia?.leading ?? "") + this.total + (this.trivia?.trailing ?? "");
+	}
+
 	/**
 	 * Gets the groups of the token.
 	 */
@@ -180,4 +359,34 @@ export class Token<Transpiler extends BaseTranspiler> {
 		if (!groups) return {};
 		return Object.fromEntries(Object.entries(groups).filter(([, value]) => value));
 	}
+
+	/**
+	 * Gets the tokens of the inside, if the competence nests them.
+	 *
+	 * The inside is tokenized the first time the child tokens are requested.
+	 */
+	public get children(): Token<Transpiler>[] | undefined {
+		return this.tokenizeInside()?.children;
+	}
+
+	/**
+	 * Gets the tokens of each argument of the inside, if the competence nests them with a delimiter.
+	 *
+	 * The inside is tokenized the first time the child tokens are requested.
+	 */
+	public get arguments(): Token<Transpiler>[][] | undefined {
+		return this.tokenizeInside()?.arguments;
+	}
+
+	/**
+	 * Tokenizes the inside through the competence, once.
+	 *
+	 * @returns The child tokens, if any.
+	 */
+	private tokenizeInside(): Nested<Transpiler> | undefined {
+		if (this.nested === undefined) {
+			this.nested = this.competence.nest(this) ?? null;
+		}
+		return this.nested ?? undefined;
+	}
 }
@@ -0,0 +1,182 @@
+import type { Node } from "./node";
+
+/**
+ * Represents a callback of a visitor, called with the path of the visited node.
+ */
+export type VisitCallback = (path: NodePath) => void;
+
+/**
+ * Represents the callbacks of a visitor for a type of node.
+ */
+export interface Visit {
+	/** Called before the children of the node are visited. */
+	readonly enter?: VisitCallback;
+
+	/** Called after the children of the node are visited, with the node rebuilt from them. */
+	readonly leave?: VisitCallback;
+}
+
+/**
+ * Represents the callbacks of a visitor keyed by node type, a single callback being called on enter.
+ *
+ * The `"*"` key is called for every node, before the callbacks of its type.
+ */
+export type Visitor = Record<string, Visit | VisitCallback>;
+
+/**
+ * Represents a visited node and where it is in the tree, with the operations to change it.
+ *
+ * The operations do not change the tree: they are applied to the new tree returned by `transform`.
+ */
+export class NodePath {
+	/** The visited node, rebuilt from its children when leaving it. */
+	public node: Node<string, unknown>;
+
+	/** The path of the parent node, if it is not the root. */
+	public readonly parent?: NodePath;
+
+	/** The nodes replacing the node, once replaced or removed. */
+	private replacement?: Node<string, unknown>[];
+
+	/** The nodes inserted before the node. */
+	private readonly before: Node<string, unknown>[] = [];
+
+	/** The nodes inserted after the node. */
+	private readonly after: Node<string, unknown>[] = [];
+
+	/** Whether the children of the node are not visited. */
+	private skipped = false;
+
+	/**
+	 * Creates a new NodePath instance.
+	 *
+	 * @param node The visited node.
+	 * @param parent The path of the parent node, if it is not the root.
+	 */
+	constructor(node: Node<string, unknown>, parent?: NodePath) {
+		this.node = node;
+		this.parent = parent;
+	}
+
+	/**
+	 * Gets the depth of the node, `0` being the root.
+	 */
+	public get depth(): number {
+		return this.parent ? this.parent.depth + 1 : 0;
+	}
+
+	/**
+	 * Gets whether the node has been replaced or removed.
+	 */
+	public get replaced(): boolean {
+		return this.replacement !== undefined;
+	}
+
+	/**
+	 * Replaces the node with other nodes, which are not visited.
+	 *
+	 * Nodes outside arrays can only be replaced with a single node.
+	 *
+	 * @param nodes The nodes replacing it.
+	 */
+	public replace(...nodes: Node<string, unknown>[]): void {
+		this.replacement = nodes;
+	}
+
+	/**
+	 * Removes the node. Nodes outside arrays are left `undefined`.
+	 */
+	public remove(): void {
+		this.replacement = [];
+	}
+
+	/**
+	 * Inserts siblings before the node, which are not visited. The node must be within an array.
+	 *
+	 * @param nodes The nodes to insert.
+	 */
+	public insertBefore(...nodes: Node<string, unknown>[]): void {
+		this.before.push(...nodes);
+	}
+
+	/**
+	 * Inserts siblings after the node, which are not visited. The node must be within an array.
+	 *
+	 * @param nodes The nodes to insert.
+	 */
+	public insertAfter(...nodes: Node<string, unknown>[]): void {
+		this.after.push(...nodes);
+	}
+
+	/**
+	 * Skips the children of the node, which are kept as they are.
+	 */
+	public skip(): void {
+		this.skipped = true;
+	}
+
+	/**
+	 * Visits the node and its children, depth first.
+	 *
+	 * @param visitor The callbacks of the visitor.
+	 * @returns The nodes taking the place of the node.
+	 */
+	public visit(visitor: Visitor): Node<string, unknown>[] {
+		const visits = [visitor["*"], visitor[this.node.type]].map((visit) =>
+			typeof visit === "function" ? { enter: visit } : visit,
+		);
+
+		for (const visit of visits) {
+			if (this.replacement) break;
+			visit?.enter?.(this);
+		}
+
+		if (!this.replacement && !this.skipped) {
+			// Unchanged children keep the node as it is, so unchanged subtrees are shared.
+			let changed = false;
+			const rebuilt = this.node.rebuild((child) => {
+				const nodes = new NodePath(child, this).visit(visitor);
+				changed ||= nodes.length !== 1 || nodes[0] !== child;
+				return nodes;
+			});
+			if (changed) this.node = rebuilt;
+		}
+
+		for (const visit of visits) {
+			if (this.replacement) break;
+			visit?.leave?.(this);
+		}
+
+		return [...this.before, ...(this.replacement ?? [this.node]), ...this.after];
+	}
+}
+
+/**
+ * Transforms a tree of nodes with a visitor, returning a new tree without changing the original.
+ *
+ * The nodes are visited depth first. The visitor replaces, removes and inserts nodes through the
+ * path of the visited node, and the unchanged subtrees are shared between both trees, so the
+ * same root is returned when nothing changes.
+ *
+ * @param root The root of the tree.
+ * @param visitor The callbacks of the visitor, keyed by node type.
+ * @returns The root of the new tree, or `undefined` if it was removed.
+ * @throws Error if a node outside an array is replaced with several nodes, or the root with several nodes.
+ *
+ * @example
+ * // Removes the comments and doubles the numbers.
+ * const result = transform(program, {
+ *     comment: (path) => path.remove(),
+ *     number: { leave: (path) => path.replace(new NumberNode(Number(path.node.value) * 2)) },
+ * });
+ */
+export function transform(
+	root: Node<string, unknown>,
+	visitor: Visitor,
+): Node<string, unknown> | undefined {
+	const nodes = new NodePath(root).visit(visitor);
+	if (nodes.length > 1) {
+		throw new Error("The root node can only be replaced with a single node.");
+	}
+	return nodes[0];
+}
@@ -3,10 +3,20 @@ export * from "./common/";
 
 // From @core
 export * from "./core/base.competence";
+export * from "./core/text.competence";
 export * from "./core/base.transpiler";
 export * from "./core/registry";
 export * from "./core/reader";
 export * from "./core/schema";
 export * from "./core/token";
+export * from "./core/grammar";
+export * from "./core/expression.parser";
+export * from "./core/signature";
 export * from "./core/lexer";
 export * from "./core/node";
+export * from "./core/transform";
+export * from "./core/query";
+export * from "./core/diagnostic";
+export * from "./core/line.index";
+export * from "./core/source.map";
+export * from "./core/code.writer";
@@ -1,5 +1,75 @@
-import { bench, group, run } from "mitata";
+import { bench, group, run, summary } from "mitata";
 import _ from "lodash";
+import { type Patterns, BaseCompetence, BaseTranspiler, Lexer, Node, Token } from "../src/";
+
+class BenchTranspiler extends BaseTranspiler {
+	public transpile(): string {
+		return "";
+	}
+}
+
+class BenchCompetence extends BaseCompetence<BenchTranspiler> {
+	public readonly identifier: string;
+	public readonly patterns: Patterns;
+	public readonly priority: number;
+
+	constructor(transpiler: BenchTranspiler, identifier: string, foremost: RegExp, priority = 0) {
+		super(transpiler);
+		this.identifier = identifier;
+		this.patterns = { foremost };
+		this.priority = priority;
+	}
+
+	resolve({ total }: Token<BenchTranspiler>): Node<string, unknown> {
+		return new Node("bench", total);
+	}
+}
+
+// Lexer dispatch
+summary(() => {
+	const transpiler = new BenchTranspiler();
+	const competences = [
+		...["if", "else", "while", "for", "return", "let", "const", "function"].map(
+			(keyword) => new BenchCompetence(transpiler, keyword, new RegExp(`${keyword}\\b`), 1),
+		),
+		new BenchCompetence(transpiler, "number", /\d+(?:\.\d+)?/),
+		new BenchCompetence(transpiler, "string", /"[^"]*"/),
+		new BenchCompetence(transpiler, "operator", /[-+*\/=<>!]=?/),
+		new BenchCompetence(transpiler, "punctuation", /[(){};,]/),
+		new BenchCompetence(transpiler, "identifier", /[a-zA-Z_]\w*/),
+	];
+	const lexer = new Lexer({ competences });
+	const source = 'function fib(n) { if (n < 2) { return n; } return fib(n - 1) + fib(n - 2); }\nlet x = "fib" + fib(20.5);\n'.repeat(500);
+
+	// The previous implementation of Lexer.tokenize, kept for comparison.
+	function* previous(input: string): Generator<Token<BenchTranspiler>> {
+		const sorted: BenchCompetence[] = [];
+		for (const value of competences.values()) sorted.push(value);
+
+		const pattern = new RegExp(sorted.map((c) => `(?:${c.patterns.foremost.source})`).join("|"), "gm");
+
+		for (let match = pattern.exec(input); match !== null; match = pattern.exec(input)) {
+			const competence = sorted.find((c) => c.patterns.foremost.test(match[0]));
+			if (!competence) continue;
+
+			const token = new Token({ competence, match });
+			yield token;
+			pattern.lastIndex = token.end;
+		}
+	}
+
+	bench("find (previous)", () => {
+		let count = 0;
+		for (const _token of previous(source)) count++;
+		return count;
+	});
+
+	bench("capture groups (cached)", () => {
+		let count = 0;
+		for (const _token of lexer.tokenize(source)) count++;
+		return count;
+	});
+});
 
 // group(() => {
 //     const type = "function" as string;
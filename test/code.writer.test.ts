@@ -0,0 +1,90 @@
+import { describe, it, expect } from "bun:test";
+
+import { BinaryNode, CodeWriter, Node, OperandNode, SourceMap } from "../src/";
+
+class Block extends Node<"block", Node<string, unknown>[]> {
+	constructor(value: Node<string, unknown>[]) {
+		super("block", value);
+	}
+
+	public override emit(writer: CodeWriter): void {
+		writer
+			.write("{")
+			.block(() => {
+				for (const statement of this.value) writer.node(statement).write(";").newline();
+			})
+			.write("}");
+	}
+}
+
+class Call extends Node<"call", { name: string; args: Node<string, unknown>[] }> {
+	constructor(name: string, args: Node<string, unknown>[]) {
+		super("call", { name, args });
+	}
+
+	public override emit(writer: CodeWriter): void {
+		writer.write(`${this.value.name}(`).join(this.value.args, ", ").write(")");
+	}
+}
+
+/**
+ * Locates a node at a line and a column of the source.
+ */
+function at<N extends Node<string, unknown>>(node: N, line: number, column: number): N {
+	node.location = {
+		start: { offset: 0, line, column },
+		end: { offset: 0, line, column: column + 1 },
+	};
+	return node;
+}
+
+describe("CodeWriter", () => {
+	it("should indent the lines of nested blocks", () => {
+		const tree = new Block([
+			new Call("log", [
+				new OperandNode("a"),
+				new BinaryNode("+", new OperandNode("b"), new OperandNode("c")),
+			]),
+			new Block([new Call("run", [])]),
+		]);
+
+		expect(tree.serialize()).toBe("{\n\tlog(a, b + c);\n\t{\n\t\trun();\n\t};\n}");
+		expect(new CodeWriter({ indentation: "  " }).node(tree).toString()).toBe(
+			"{\n  log(a, b + c);\n  {\n    run();\n  };\n}",
+		);
+	});
+
+	it("should not indent empty lines", () => {
+		const writer = new CodeWriter().indent().write("a\n\nb").newline();
+
+		expect(writer.toString()).toBe("\ta\n\n\tb\n");
+		expect(writer.position).toEqual({ line: 4, column: 2 });
+	});
+
+	it("should map the written nodes to their location", () => {
+		const map = new SourceMap("out.js");
+		const tree = at(new Block([at(new Call("log", [at(new OperandNode("x"), 2, 7)]), 2, 3)]), 1, 1);
+
+		new CodeWriter({ map, source: "main.dsl" }).node(tree);
+
+		expect(map.toJSON().sources).toEqual(["main.dsl"]);
+		// The closing brace starts a line of the block, so it is mapped to the block.
+		expect(map.toJSON().mappings).toBe("AAAA;CACE,IAAI;AADN");
+	});
+
+	it("should keep serializing the nodes that only implement serialize", () => {
+		expect(new Node("raw", 1).serialize()).toBe("UNIMPLEMENTED");
+		expect(new Block([new OperandNode("a\nb")]).serialize()).toBe("{\n\ta\n\tb;\n}");
+	});
+
+	it("should write the default placeholder when emit extends it", () => {
+		class Prefixed extends Node<"prefixed", string> {
+			public override emit(writer: CodeWriter): void {
+				writer.write("x");
+				super.emit(writer);
+			}
+		}
+
+		expect(new Prefixed("prefixed", "a").serialize()).toBe("xUNIMPLEMENTED");
+	});
+});
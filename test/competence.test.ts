@@ -0,0 +1,156 @@
+import { describe, it, expect } from "bun:test";
+
+import {
+	type ArgumentsOf,
+	type Patterns,
+	type Token,
+	BaseTranspiler,
+	BaseCompetence,
+	DiagnosticCode,
+	Node,
+} from "../src/";
+
+class CCall extends BaseCompetence<TRS> {
+	public readonly identifier = "test:call";
+	public readonly patterns: Patterns = {
+		foremost: /[a-z]+/,
+		opener: /\(/,
+		closer: /\)/,
+		quotes: [['"', '"']],
+		escape: "\\",
+	};
+
+	resolve(token: Token<TRS>): Node<string, unknown> {
+		return new Node("call", [...this.splitByDelimiter(token.inside ?? "", ";", token)]);
+	}
+
+	public split(inside: string): string[] {
+		return [...this.splitByDelimiter(inside)];
+	}
+
+	public arguments(token: Token<TRS>): Record<string, unknown> | undefined {
+		return this.extract(token);
+	}
+}
+
+const ROUND = [
+	{ name: "value", type: "number" },
+	{ name: "digits", type: "number", default: 0 },
+	{ name: "label", type: "string", optional: true },
+	{ name: "flags", type: "boolean", rest: true },
+] as const;
+
+class CRound extends BaseCompetence<TRS> {
+	public readonly identifier = "test:round";
+	public readonly patterns: Patterns = { foremost: /\$round/, opener: /\[/, closer: /\]/ };
+	public readonly signature = ROUND;
+
+	resolve(token: Token<TRS>): Node<string, unknown> {
+		return new Node("round", this.extract<ArgumentsOf<typeof ROUND>>(token));
+	}
+}
+
+class TRS extends BaseTranspiler {
+	public transpile(): string {
+		return "";
+	}
+}
+
+describe("splitByDelimiter", () => {
+	it("should not split inside nested structures, quotes or escapes", () => {
+		const transpiler = new TRS();
+		const competence = new CCall(transpiler);
+
+		expect(competence.split(String.raw`a;(b;c);")";d\;e`)).toEqual([
+			"a",
+			"(b;c)",
+			'")"',
+			String.raw`d\;e`,
+		]);
+		expect(transpiler.diagnostics.size).toBe(0);
+	});
+
+	it("should report unbalanced delimiters", () => {
+		const transpiler = new TRS();
+		const competence = new CCall(transpiler);
+
+		expect(competence.split(`a);(b;"c`)).toEqual(["a)", `(b;"c`]);
+		expect(transpiler.diagnostics.errors.map((d) => d.message)).toEqual([
+			'Unexpected ")" without an opener.',
+			"Unterminated string.",
+			"Unclosed opener.",
+		]);
+		expect(
+			transpiler.diagnostics.errors.every((d) => d.code === DiagnosticCode.UnbalancedDelimiter),
+		).toBe(true);
+	});
+
+	it("should locate the diagnostics in the source of the token", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CCall(transpiler));
+
+		const [token] = transpiler.tokenize(`call(a;")`);
+
+		expect(token.competence.resolve(token).value).toEqual(["a", `")`]);
+		// The unterminated string leaves the call unclosed, which the lexer reports first.
+		expect(transpiler.diagnostics.errors.map((d) => d.range?.start.offset)).toEqual([0, 7]);
+	});
+});
+
+describe("extract", () => {
+	/**
+	 * Resolves the first token of the source with the round competence.
+	 */
+	function round(source: string): [unknown, TRS] {
+		const transpiler = new TRS();
+		transpiler.declare(new CRound(transpiler));
+		const [token] = transpiler.tokenize(source);
+		return [token.competence.resolve(token).value, transpiler];
+	}
+
+	it("should convert the arguments into the types of the signature", () => {
+		expect(round("$round[ 1.5 ; 2; up ;true;false]")[0]).toEqual({
+			value: 1.5,
+			digits: 2,
+			label: "up",
+			flags: [true, false],
+		});
+	});
+
+	it("should use the defaults of the missing arguments", () => {
+		expect(round("$round[0x10]")[0]).toEqual({ value: 16, digits: 0, label: undefined, flags: [] });
+	});
+
+	it("should report the missing arguments", () => {
+		const [value, transpiler] = round("$round[]");
+
+		expect(value).toBeUndefined();
+		expect(transpiler.diagnostics.errors[0].code).toBe(DiagnosticCode.ArgumentCount);
+		expect(transpiler.diagnostics.errors[0].message).toBe(
+			'Missing argument "value" of "test:round".',
+		);
+	});
+
+	it("should report the invalid arguments at their location", () => {
+		const [value, transpiler] = round("$round[1;  two ;;yes]");
+		const [digits, flags] = transpiler.diagnostics.errors;
+
+		expect(value).toBeUndefined();
+		expect(digits.code).toBe(DiagnosticCode.ArgumentType);
+		expect(digits.message).toBe('Argument "digits" must be a number, got "two".');
+		expect(digits.range?.start.offset).toBe(11);
+		expect(digits.range?.end.offset).toBe(14);
+		expect(flags.message).toBe('Argument "flags" must be a boolean, got "yes".');
+	});
+
+	it("should report the extra arguments", () => {
+		const transpiler = new TRS();
+		const competence = new CCall(transpiler);
+		transpiler.declare(competence);
+
+		const [token] = transpiler.tokenize("call(a)");
+		expect(competence.arguments(token)).toBeUndefined();
+		expect(transpiler.diagnostics.errors[0].code).toBe(DiagnosticCode.ArgumentCount);
+		expect(transpiler.diagnostics.errors[0].range?.start.offset).toBe(5);
+	});
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "bun:test";
+
+import {
+	type Contexts,
+	type Modes,
+	type Nesting,
+	type Patterns,
+	type Token,
+	BaseTranspiler,
+	BaseCompetence,
+	DiagnosticCode,
+	Node,
+} from "../src/";
+
+class CWord extends BaseCompetence<TRS> {
+	public readonly identifier: string;
+	public readonly patterns: Patterns;
+	public readonly contexts?: Contexts;
+	public readonly nesting?: Nesting<TRS>;
+	public readonly modes?: Modes;
+
+	constructor(
+		transpiler: TRS,
+		word: string,
+		{
+			contexts,
+			nesting,
+			modes,
+		}: { contexts?: Contexts; nesting?: Nesting<TRS>; modes?: Modes } = {},
+	) {
+		super(transpiler);
+		this.identifier = word;
+		this.patterns = nesting
+			? { foremost: new RegExp(`\\$${word}`), opener: /\[/, closer: /\]/ }
+			: { foremost: new RegExp(`\\$${word}\\b`) };
+		this.contexts = contexts;
+		this.nesting = nesting;
+		this.modes = modes;
+	}
+
+	resolve({ total }: Token<TRS>): Node<string, unknown> {
+		return new Node("word", total);
+	}
+}
+
+class TRS extends BaseTranspiler {
+	public transpile(): string {
+		return "";
+	}
+}
+
+/**
+ * Parses the source with loops, switches and the words only valid within them.
+ */
+function parse(source: string): TRS {
+	const transpiler = new TRS();
+
+	transpiler.declare(
+		new CWord(transpiler, "while", { nesting: {}, contexts: { opens: ["loop"] } }),
+		new CWord(transpiler, "for", { nesting: {}, contexts: { opens: ["loop"] } }),
+		new CWord(transpiler, "switch", { nesting: {} }),
+		new CWord(transpiler, "break", { contexts: { within: ["loop", "switch"] } }),
+		new CWord(transpiler, "case", { contexts: { within: ["switch"] } }),
+	);
+
+	transpiler.parse(transpiler.lexer.tokenize(source));
+	return transpiler;
+}
+
+describe("Competence contexts", () => {
+	it("should allow the tokens within the contexts they are valid in", () => {
+		const transpiler = parse("$while[$break] $for[$switch[$case $break]] $switch[$case]");
+
+		expect(transpiler.diagnostics.size).toBe(0);
+	});
+
+	it("should report the tokens outside the contexts they are valid in", () => {
+		const transpiler = parse("$break $while[$case]");
+		const [stray, misplaced] = transpiler.diagnostics.errors;
+
+		expect(transpiler.diagnostics.errors.length).toBe(2);
+		expect(stray.code).toBe(DiagnosticCode.IllegalContext);
+		expect(stray.message).toBe('Illegal token "$break", expected it within "loop" or "switch".');
+		expect(misplaced.message).toBe('Illegal token "$case", expected it within "switch".');
+		expect(misplaced.range?.start.offset).toBe(14);
+	});
+
+	it("should treat the lexer modes as contexts", () => {
+		const transpiler = new TRS();
+		transpiler.declare(
+			new CWord(transpiler, "break", {
+				contexts: { within: ["block"] },
+				modes: { within: ["default", "block"] },
+			}),
+			new CWord(transpiler, "do", { modes: { push: "block" } }),
+			new CWord(transpiler, "loop", { modes: { within: ["block"], pop: true } }),
+		);
+
+		transpiler.parse(transpiler.lexer.tokenize("$do $break $loop $break"));
+
+		expect(transpiler.diagnostics.errors.map((d) => d.range?.start.offset)).toEqual([17]);
+	});
+});
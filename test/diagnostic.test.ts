@@ -0,0 +1,175 @@
+import { describe, it, expect } from "bun:test";
+
+import {
+	type Patterns,
+	type Token,
+	BaseTranspiler,
+	BaseCompetence,
+	Diagnostic,
+	DiagnosticCode,
+	DiagnosticError,
+	DiagnosticSeverity,
+	Diagnostics,
+	ErrorNode,
+	LexerOptions,
+	Schema,
+	Lexer,
+	Node,
+	locate,
+} from "../src/";
+
+class Word extends Node<"word", string> {
+	constructor(value: string) {
+		super("word", value);
+	}
+
+	public serialize(): string {
+		return this.value;
+	}
+}
+
+class CWord extends BaseCompetence<TRS> {
+	public readonly identifier = "test:word";
+	public readonly patterns: Patterns = {
+		foremost: /[a-z]+/,
+	};
+
+	resolve({ total, range }: Token<TRS>): Node<string, unknown> {
+		if (total === "bad") {
+			throw new DiagnosticError(
+				new Diagnostic({ code: "bad-word", message: "Bad word.", range }),
+			);
+		}
+		return new Word(total);
+	}
+}
+
+class TRS extends BaseTranspiler {
+	constructor(recovery = false) {
+		super({
+			schemas: { word: new Schema("word", "string") },
+			lexer: new Lexer({ options: LexerOptions.FailWhenUnmatch }),
+			recovery,
+		});
+	}
+
+	public transpile(source: string): string {
+		const nodes = [...this.synthesize(this.tokenize(source))];
+		return nodes.map((node) => this.registry.resolve(node)).join(" ");
+	}
+}
+
+describe("Diagnostics", () => {
+	it("should collect reported diagnostics", () => {
+		const diagnostics = new Diagnostics();
+
+		diagnostics.error("some-error", "Something failed.");
+		diagnostics.warn("some-warning", "Something looks wrong.");
+
+		expect(diagnostics.size).toBe(2);
+		expect(diagnostics.hasErrors()).toBe(true);
+		expect(diagnostics.errors.map((d) => d.code)).toEqual(["some-error"]);
+		expect(diagnostics.warnings.map((d) => d.severity)).toEqual([DiagnosticSeverity.Warning]);
+
+		diagnostics.clear();
+		expect(diagnostics.size).toBe(0);
+	});
+
+	it("should locate offsets", () => {
+		expect(locate("ab\ncd", 0)).toEqual({ offset: 0, line: 1, column: 1 });
+		expect(locate("ab\ncd", 4)).toEqual({ offset: 4, line: 2, column: 2 });
+	});
+});
+
+describe("transpiler diagnostics", () => {
+	it("should return the output alongside the diagnostics", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CWord(transpiler));
+
+		const { output, diagnostics } = transpiler.compile("one two");
+
+		expect(output).toBe("one two");
+		expect(diagnostics).toEqual([]);
+	});
+
+	it("should report unexpected text with its range", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CWord(transpiler));
+
+		const { output, diagnostics } = transpiler.compile("one\n 42 two");
+
+		expect(output).toBe("one");
+		expect(diagnostics).toHaveLength(1);
+		expect(diagnostics[0].code).toBe(DiagnosticCode.UnexpectedText);
+		expect(diagnostics[0].range?.start).toEqual({ offset: 5, line: 2, column: 2 });
+		expect(diagnostics[0].range?.end).toEqual({ offset: 7, line: 2, column: 4 });
+	});
+
+	it("should report the diagnostics thrown by competences", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CWord(transpiler));
+
+		const { diagnostics } = transpiler.compile("one bad");
+
+		expect(diagnostics).toHaveLength(1);
+		expect(diagnostics[0].code).toBe("bad-word");
+		expect(diagnostics[0].range?.start.column).toBe(5);
+	});
+
+	it("should continue after failures in recovery mode", () => {
+		const transpiler = new TRS(true);
+		transpiler.declare(new CWord(transpiler));
+
+		const nodes = [...transpiler.synthesize(transpiler.tokenize("bad one bad two"))];
+
+		expect(nodes.map((node) => node.type)).toEqual(["error", "word", "error", "word"]);
+		expect((nodes[2] as ErrorNode).value.diagnostic.range?.start.offset).toBe(8);
+		expect(nodes[2].location?.start.offset).toBe(8);
+		expect(transpiler.diagnostics.errors).toHaveLength(2);
+		expect(transpiler.compile("bad one").output).toBe(" one");
+	});
+
+	it("should revive the recovered nodes from JSON", () => {
+		const transpiler = new TRS(true);
+		transpiler.declare(new CWord(transpiler));
+
+		const nodes = [...transpiler.synthesize(transpiler.tokenize("bad one"))];
+		const revived = transpiler.registry.revive(JSON.parse(JSON.stringify(nodes)));
+
+		expect(revived[0]).toBeInstanceOf(ErrorNode);
+		expect((revived[0] as ErrorNode).value.diagnostic).toBeInstanceOf(Diagnostic);
+		expect(revived[0]).toEqual(nodes[0]);
+		expect(revived.map((node) => node.type)).toEqual(["error", "word"]);
+	});
+
+	it("should only keep the diagnostics of the last tokenized input", () => {
+		const transpiler = new TRS(true);
+		transpiler.declare(new CWord(transpiler));
+
+		[...transpiler.synthesize(transpiler.tokenize("bad one"))];
+		expect(transpiler.diagnostics.errors).toHaveLength(1);
+
+		[...transpiler.synthesize(transpiler.tokenize("one two"))];
+		expect(transpiler.diagnostics.size).toBe(0);
+	});
+
+	it("should stop when the signal is aborted", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CWord(transpiler));
+
+		const { output, diagnostics } = transpiler.compile("one two", { signal: AbortSignal.abort() });
+
+		expect(output).toBe("");
+		expect(diagnostics.map((d) => d.code)).toEqual([DiagnosticCode.Aborted]);
+	});
+
+	it("should stop at the first failure outside recovery mode", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CWord(transpiler));
+
+		const nodes = [...transpiler.synthesize(transpiler.tokenize("one bad two bad"))];
+
+		expect(nodes).toHaveLength(1);
+		expect(transpiler.diagnostics.errors).toHaveLength(1);
+	});
+});
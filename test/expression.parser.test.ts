@@ -0,0 +1,138 @@
+import { describe, it, expect } from "bun:test";
+
+import {
+	type Patterns,
+	type Token,
+	Associativity,
+	BaseTranspiler,
+	BaseCompetence,
+	DiagnosticCode,
+	ExpressionParser,
+	Node,
+} from "../src/";
+
+class CMath extends BaseCompetence<TRS> {
+	public readonly identifier = "test:math";
+	public readonly patterns: Patterns = { foremost: /math/, opener: /\[/, closer: /\]/ };
+
+	constructor(transpiler: TRS) {
+		super(transpiler);
+		transpiler.expressions.infix("+", 10).infix("*", 20);
+	}
+
+	resolve(token: Token<TRS>): Node<string, unknown> {
+		return new Node("math", this.transpiler.expressions.parse(token.inside ?? "", token));
+	}
+}
+
+class TRS extends BaseTranspiler {
+	public transpile(): string {
+		return "";
+	}
+}
+
+/**
+ * Creates a parser with the usual arithmetic operators.
+ */
+function arithmetic(): ExpressionParser {
+	return new ExpressionParser()
+		.infix("+", 10)
+		.infix("-", 10)
+		.infix("*", 20)
+		.infix("**", 30, Associativity.Right)
+		.prefix("-", 40)
+		.postfix("!", 50);
+}
+
+/**
+ * Renders the structure of a node with parentheses around every operator.
+ */
+function render(node?: Node<string, unknown>): string {
+	const value = node?.value as Record<string, Node<string, unknown>> & {
+		operator: string;
+		prefix: boolean;
+	};
+	switch (node?.type) {
+		case "binary":
+			return `(${render(value.left)} ${value.operator} ${render(value.right)})`;
+		case "unary":
+			return value.prefix
+				? `(${value.operator}${render(value.operand)})`
+				: `(${render(value.operand)}${value.operator})`;
+		case "group":
+			return render(node.value as Node<string, unknown>);
+		default:
+			return String(node?.value);
+	}
+}
+
+describe("ExpressionParser", () => {
+	it("should respect the precedence of the operators", () => {
+		const parser = arithmetic();
+
+		expect(render(parser.parse("a + b * c"))).toBe("(a + (b * c))");
+		expect(render(parser.parse("(a + b) * c"))).toBe("((a + b) * c)");
+		expect(render(parser.parse("-a ** 2 + n!"))).toBe("(((-a) ** 2) + (n!))");
+		expect(render(parser.parse("-n!"))).toBe("(-(n!))");
+	});
+
+	it("should respect the associativity of the operators", () => {
+		const parser = arithmetic();
+
+		expect(render(parser.parse("a - b - c"))).toBe("((a - b) - c)");
+		expect(render(parser.parse("a ** b ** c"))).toBe("(a ** (b ** c))");
+	});
+
+	it("should serialize the expression with its groups", () => {
+		expect(arithmetic().parse("(1 + 2.5)*-x")?.serialize()).toBe("(1 + 2.5) * -x");
+	});
+
+	it("should create the nodes of custom operators", () => {
+		const parser = new ExpressionParser().infix(
+			"&&",
+			5,
+			Associativity.Left,
+			(left, right) => new Node("and", [left, right]),
+		);
+
+		expect(parser.parse("a && b")?.type).toBe("and");
+	});
+
+	it("should parse word operators", () => {
+		const parser = new ExpressionParser().infix("or", 4).infix("and", 5).prefix("not", 10);
+
+		expect(render(parser.parse("a and not b or c"))).toBe("((a and (notb)) or c)");
+		expect(parser.parse("not a and b")?.serialize()).toBe("not a and b");
+		expect(render(parser.parse("android or notes"))).toBe("(android or notes)");
+		expect(parser.diagnostics.size).toBe(0);
+	});
+
+	it("should report the expressions that cannot be parsed", () => {
+		const parser = arithmetic();
+
+		expect(parser.parse("a +")).toBeUndefined();
+		expect(parser.parse("(a")).toBeUndefined();
+		expect(parser.parse("a b")).toBeUndefined();
+		expect(parser.parse("a # b")).toBeUndefined();
+		expect(parser.diagnostics.errors.map((d) => d.code)).toEqual([
+			DiagnosticCode.UnexpectedEnd,
+			DiagnosticCode.UnexpectedEnd,
+			DiagnosticCode.UnexpectedToken,
+			DiagnosticCode.UnexpectedText,
+		]);
+	});
+
+	it("should locate the nodes and the diagnostics in the source of the token", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CMath(transpiler));
+
+		const [valid, invalid] = [...transpiler.tokenize("math[a + b * c] math[a * * b]")];
+		const expression = valid.competence.resolve(valid).value as Node<string, unknown>;
+		invalid.competence.resolve(invalid);
+
+		expect(expression.location?.start.offset).toBe(5);
+		expect(expression.location?.end.offset).toBe(14);
+		expect(transpiler.diagnostics.errors[0].message).toBe('Unexpected "*", expected an operand.');
+		expect(transpiler.diagnostics.errors[0].range?.start.offset).toBe(25);
+	});
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "bun:test";
+
+import {
+	type Patterns,
+	type Rule,
+	type Token,
+	BaseTranspiler,
+	BaseCompetence,
+	DiagnosticCode,
+	Node,
+	choice,
+	label,
+	optional,
+	repeat,
+	sequence,
+} from "../src/";
+
+class CWord extends BaseCompetence<TRS> {
+	public readonly identifier: string;
+	public readonly patterns: Patterns;
+	public readonly grammar?: Rule;
+
+	constructor(transpiler: TRS, word: string, grammar?: Rule) {
+		super(transpiler);
+		this.identifier = word;
+		this.patterns = { foremost: new RegExp(`\\b${word}\\b`) };
+		this.grammar = grammar;
+	}
+
+	resolve({ total }: Token<TRS>): Node<string, unknown> {
+		return new Node("word", total);
+	}
+}
+
+class TRS extends BaseTranspiler {
+	public transpile(): string {
+		return "";
+	}
+}
+
+/**
+ * Parses the source with an `if` competence followed by `elseif` and `else` branches.
+ */
+function parse(source: string): [Token<TRS>[], TRS] {
+	const transpiler = new TRS();
+	const grammar = sequence(
+		label("then", "block"),
+		repeat(label("elseif", sequence("elseif", "block"))),
+		optional(label("else", sequence("else", choice("block", "if")))),
+	);
+
+	for (const word of ["elseif", "else", "block"]) {
+		transpiler.declare(new CWord(transpiler, word));
+	}
+	transpiler.declare(new CWord(transpiler, "if", grammar));
+
+	return [transpiler.parse(transpiler.lexer.tokenize(source)), transpiler];
+}
+
+describe("Grammar rules", () => {
+	it("should consume the tokens that follow the grammar", () => {
+		const [tokens, transpiler] = parse("if block elseif block elseif block else block block");
+		const production = tokens[0].production;
+
+		expect(transpiler.diagnostics.size).toBe(0);
+		expect(tokens.map((token) => token.total)).toEqual(["if", "block"]);
+		expect(production?.tokens.length).toBe(7);
+		expect(production?.get("then")?.token?.start).toBe(3);
+		expect(production?.all("elseif").map((branch) => branch.token?.start)).toEqual([9, 22]);
+		expect(production?.get("else")?.tokens.map((token) => token.total)).toEqual(["else", "block"]);
+	});
+
+	it("should leave out the optional and repeated parts", () => {
+		const [tokens, transpiler] = parse("if block");
+
+		expect(transpiler.diagnostics.size).toBe(0);
+		expect(tokens[0].production?.all("elseif")).toEqual([]);
+		expect(tokens[0].production?.get("else")).toBeUndefined();
+	});
+
+	it("should match the alternatives and the nested grammars", () => {
+		const [tokens, transpiler] = parse("if block else if block else block");
+		const nested = tokens[0].production?.get("else")?.tokens[1];
+
+		expect(transpiler.diagnostics.size).toBe(0);
+		expect(tokens.length).toBe(1);
+		expect(nested?.production?.get("else")?.token?.total).toBe("else");
+	});
+
+	it("should report the unexpected token", () => {
+		const [tokens, transpiler] = parse("if else block");
+		const [error] = transpiler.diagnostics.errors;
+
+		expect(tokens[0].production).toBeUndefined();
+		expect(error.code).toBe(DiagnosticCode.UnexpectedToken);
+		expect(error.message).toBe('Unexpected token "else", expected "block".');
+		expect(error.range?.start.offset).toBe(3);
+	});
+
+	it("should report the farthest unexpected token of the nested grammars", () => {
+		const [, transpiler] = parse("if block else if elseif");
+		const [error] = transpiler.diagnostics.errors;
+
+		expect(error.message).toBe('Unexpected token "elseif", expected "block".');
+		expect(error.range?.start.offset).toBe(17);
+	});
+
+	it("should report the end of the input", () => {
+		const [, transpiler] = parse("if");
+		const [error] = transpiler.diagnostics.errors;
+
+		expect(error.code).toBe(DiagnosticCode.UnexpectedEnd);
+		expect(error.message).toBe('Unexpected end of input, expected "block" after "if".');
+	});
+});
@@ -0,0 +1,441 @@
+import { describe, it, expect } from "bun:test";
+
+import {
+	type Patterns,
+	type Token,
+	BaseTranspiler,
+	BaseCompetence,
+	DiagnosticCode,
+	type LexerLimits,
+	type Modes,
+	LexerOptions,
+	TextNode,
+	Lexer,
+	Node,
+} from "../src/";
+
+class Word extends Node<"word", string> {
+	constructor(value: string) {
+		super("word", value);
+	}
+}
+
+abstract class CWord extends BaseCompetence<TRS> {
+	resolve({ total }: Token<TRS>): Node<string, unknown> {
+		return new Word(total);
+	}
+}
+
+class CIdentifier extends CWord {
+	public readonly identifier = "test:identifier";
+	public readonly patterns: Patterns = { foremost: /[a-z]+/ };
+}
+
+class CKeyword extends CWord {
+	public readonly identifier = "test:keyword";
+	public readonly patterns: Patterns = { foremost: /if|in/ };
+	public readonly priority: number;
+
+	constructor(transpiler: TRS, priority = 0) {
+		super(transpiler);
+		this.priority = priority;
+	}
+}
+
+class CString extends CWord {
+	public readonly identifier = "test:string";
+	public readonly patterns: Patterns = { foremost: /(?<quote>["'])[^"']*\1/ };
+}
+
+class CControl extends CWord {
+	public readonly identifier = "test:control";
+	public readonly patterns: Patterns = { foremost: /\0|[\1]/ };
+}
+
+class CQuote extends CWord {
+	public readonly identifier = "test:quote";
+	public readonly patterns: Patterns = { foremost: /"/ };
+	public readonly modes: Modes = { push: "string" };
+}
+
+class CText extends CWord {
+	public readonly identifier = "test:text";
+	public readonly patterns: Patterns = { foremost: /[^"]+/ };
+	public readonly modes: Modes = { within: ["string"] };
+}
+
+class CUnquote extends CWord {
+	public readonly identifier = "test:unquote";
+	public readonly patterns: Patterns = { foremost: /"/ };
+	public readonly modes: Modes = { within: ["string"], pop: true };
+}
+
+class CGroup extends CWord {
+	public readonly identifier = "test:group";
+	public readonly patterns: Patterns = { foremost: /g/, opener: /\(/, closer: /\)/ };
+}
+
+class TRS extends BaseTranspiler {
+	constructor(options?: LexerOptions, limits?: LexerLimits) {
+		super({ lexer: new Lexer({ options, limits }) });
+	}
+
+	public transpile(): string {
+		return "";
+	}
+}
+
+/**
+ * Tokenizes the source, returning the identifier of the competence and the text of each token.
+ */
+function lex(transpiler: TRS, source: string): string[] {
+	return [...transpiler.lexer.tokenize(source)].map((t) => `${t.competence.identifier}:${t.total}`);
+}
+
+describe("Lexer competence selection", () => {
+	it("should select competences by priority over declaration order", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CIdentifier(transpiler), new CKeyword(transpiler, 1));
+
+		expect(lex(transpiler, "if x")).toEqual(["test:keyword:if", "test:identifier:x"]);
+		expect(transpiler.diagnostics.size).toBe(0);
+	});
+
+	it("should report competences with the same priority as ambiguous", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CKeyword(transpiler), new CIdentifier(transpiler));
+
+		expect(lex(transpiler, "if if")).toEqual(["test:keyword:if", "test:keyword:if"]);
+		expect(transpiler.diagnostics.warnings.map((d) => d.code)).toEqual([
+			DiagnosticCode.AmbiguousMatch,
+		]);
+	});
+
+	it("should select the longest match when configured", () => {
+		const transpiler = new TRS(LexerOptions.LongestMatch);
+		transpiler.declare(new CKeyword(transpiler, 1), new CIdentifier(transpiler));
+
+		expect(lex(transpiler, "if index")).toEqual([
+			"test:keyword:if",
+			"test:identifier:index",
+		]);
+	});
+
+	it("should keep backreferences and named groups of competences", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CIdentifier(transpiler), new CString(transpiler));
+
+		const tokens = [...transpiler.lexer.tokenize(`a 'b' "c"`)];
+
+		expect(tokens.map((t) => t.total)).toEqual(["a", "'b'", '"c"']);
+		expect(tokens[2].groups).toEqual({ quote: '"' });
+	});
+
+	it("should not shift escapes that are not backreferences", () => {
+		const transpiler = new TRS();
+		transpiler.declare(
+			new CIdentifier(transpiler),
+			new CString(transpiler),
+			new CControl(transpiler),
+		);
+
+		expect(lex(transpiler, "b\0'c'\x01")).toEqual([
+			"test:identifier:b",
+			"test:control:\0",
+			"test:string:'c'",
+			"test:control:\x01",
+		]);
+	});
+
+	it("should recompile the pattern when competences change", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CIdentifier(transpiler));
+		expect(lex(transpiler, "'a'")).toEqual(["test:identifier:a"]);
+
+		transpiler.declare(new CString(transpiler));
+		expect(lex(transpiler, "'a'")).toEqual(["test:string:'a'"]);
+	});
+});
+
+describe("Lexer modes", () => {
+	it("should only try the competences of the current mode", () => {
+		const transpiler = new TRS();
+		transpiler.declare(
+			new CIdentifier(transpiler),
+			new CQuote(transpiler),
+			new CText(transpiler),
+			new CUnquote(transpiler),
+		);
+
+		expect(lex(transpiler, `a "b c" d`)).toEqual([
+			"test:identifier:a",
+			"test:quote:\"",
+			"test:text:b c",
+			"test:unquote:\"",
+			"test:identifier:d",
+		]);
+	});
+
+	it("should start in the given mode, and stay in it", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CIdentifier(transpiler), new CText(transpiler), new CUnquote(transpiler));
+
+		const tokens = transpiler.lexer.tokenize(`b" a`, undefined, { mode: "string" });
+
+		expect([...tokens].map((t) => t.competence.identifier)).toEqual([
+			"test:text",
+			"test:unquote",
+			"test:text",
+		]);
+		expect(transpiler.diagnostics.warnings.map((d) => d.code)).toEqual([
+			DiagnosticCode.UnbalancedMode,
+		]);
+	});
+});
+
+describe("Lexer trivia", () => {
+	it("should attach the text between tokens to them", () => {
+		const transpiler = new TRS(LexerOptions.PreserveTrivia);
+		transpiler.declare(new CIdentifier(transpiler));
+
+		const source = "  a // 1\n  b  ";
+		const tokens = [...transpiler.lexer.tokenize(source)];
+
+		expect(tokens.map((t) => t.trivia)).toEqual([
+			{ leading: "  ", trailing: " // 1" },
+			{ leading: "\n  ", trailing: "  " },
+		]);
+		expect(tokens.map((t) => t.full).join("")).toBe(source);
+	});
+});
+
+describe("Lexer retokenization", () => {
+	/**
+	 * Applies the edit to the source, returning the retokenized and the tokenized tokens of the result.
+	 */
+	function edit(transpiler: TRS, source: string, offset: number, removed: number, inserted: string) {
+		const { lexer } = transpiler;
+		const result = source.slice(0, offset) + inserted + source.slice(offset + removed);
+		const tokens = lexer.retokenize(result, [...lexer.tokenize(source)], { offset, removed, inserted });
+
+		const describe = (t: Token<TRS>) => `${t.competence.identifier}:${t.start}:${t.total}`;
+		return { actual: tokens.map(describe), expected: [...lexer.tokenize(result)].map(describe), tokens };
+	}
+
+	it("should match a full tokenization", () => {
+		const transpiler = new TRS(LexerOptions.PreserveTrivia);
+		transpiler.declare(new CIdentifier(transpiler), new CString(transpiler));
+
+		const source = "ab cd 'ef' gh\nij";
+		for (const [offset, removed, inserted] of [
+			[3, 2, "xyz"],
+			[0, 0, "z "],
+			[7, 0, "q"],
+			[13, 1, ""],
+		] as const) {
+			const { actual, expected, tokens } = edit(transpiler, source, offset, removed, inserted);
+			expect(actual).toEqual(expected);
+			expect(tokens.map((t) => t.full).join("")).toBe(
+				source.slice(0, offset) + inserted + source.slice(offset + removed),
+			);
+		}
+	});
+
+	it("should resume in the modes of the tokens", () => {
+		const transpiler = new TRS();
+		transpiler.declare(
+			new CIdentifier(transpiler),
+			new CQuote(transpiler),
+			new CText(transpiler),
+			new CUnquote(transpiler),
+		);
+
+		const { actual, expected } = edit(transpiler, `a "b" c d`, 6, 0, `"`);
+		expect(actual).toEqual(expected);
+	});
+
+	it("should close a string that was not terminated", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CIdentifier(transpiler), new CString(transpiler));
+
+		const { actual, expected } = edit(transpiler, "x y 'ab cd", 10, 0, "'");
+		expect(actual).toEqual([
+			"test:identifier:0:x",
+			"test:identifier:2:y",
+			"test:string:4:'ab cd'",
+		]);
+		expect(actual).toEqual(expected);
+	});
+
+	it("should keep the text inserted before the first token", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CIdentifier(transpiler));
+
+		const { actual, expected } = edit(transpiler, "  ab cd", 0, 1, "x");
+		expect(actual).toEqual([
+			"test:identifier:0:x",
+			"test:identifier:2:ab",
+			"test:identifier:5:cd",
+		]);
+		expect(actual).toEqual(expected);
+	});
+
+	it("should locate the shifted tokens from the origin", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CIdentifier(transpiler));
+
+		const origin = { offset: 10, line: 3, column: 5 };
+		const { lexer } = transpiler;
+		const previous = [...lexer.tokenize("ab cd\nef gh", undefined, { origin })];
+		const edit = { offset: 3, removed: 0, inserted: "x" };
+		const tokens = lexer.retokenize("ab xcd\nef gh", previous, edit, undefined, { origin });
+
+		expect(tokens.map((t) => t.range)).toEqual(
+			[...lexer.tokenize("ab xcd\nef gh", undefined, { origin })].map((t) => t.range),
+		);
+	});
+});
+
+describe("Lexer gap tokens", () => {
+	it("should yield the text between matches as tokens", () => {
+		const transpiler = new TRS(LexerOptions.EmitText | LexerOptions.FailWhenUnmatch);
+		transpiler.declare(new CString(transpiler));
+
+		expect(lex(transpiler, `Hi "you", bye`)).toEqual([
+			"akore:text:Hi ",
+			'test:string:"you"',
+			"akore:text:, bye",
+		]);
+		expect(transpiler.diagnostics.size).toBe(0);
+	});
+
+	it("should resolve the gaps into text nodes", () => {
+		const transpiler = new TRS(LexerOptions.EmitText);
+		transpiler.declare(new CString(transpiler));
+
+		const [text] = transpiler.synthesize(transpiler.tokenize(`<p>'x'`));
+
+		expect(text).toBeInstanceOf(TextNode);
+		expect(text.serialize()).toBe("<p>");
+		expect(transpiler.registry.has("text")).toBe(true);
+	});
+});
+
+describe("Lexer streaming", () => {
+	/**
+	 * Splits the source into chunks of the given size.
+	 */
+	async function* chunked(source: string, size: number): AsyncGenerator<string> {
+		for (let i = 0; i < source.length; i += size) yield source.slice(i, i + size);
+	}
+
+	/**
+	 * Describes a token by its competence, range and text.
+	 */
+	function describe(token: Token<TRS>): string {
+		const { start, end } = token.range;
+		return `${token.competence.identifier}:${start.line}:${start.column}:${end.offset}:${token.total}`;
+	}
+
+	it("should yield the same tokens as a full tokenization", async () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CIdentifier(transpiler), new CString(transpiler));
+
+		const source = "ab cd 'e f g' hi\njk 'l'\nmn";
+		const expected = [...transpiler.lexer.tokenize(source)].map(describe);
+
+		for (const size of [1, 2, 5]) {
+			const tokens: string[] = [];
+			for await (const token of transpiler.lexer.stream(chunked(source, size))) {
+				tokens.push(describe(token));
+			}
+			expect(tokens).toEqual(expected);
+		}
+	});
+
+	it("should keep the trivia of the tokens", async () => {
+		const transpiler = new TRS(LexerOptions.PreserveTrivia);
+		transpiler.declare(new CIdentifier(transpiler));
+
+		const source = " ab  cd\n\n ef ";
+		const tokens: string[] = [];
+		for await (const token of transpiler.lexer.stream(chunked(source, 3))) tokens.push(token.full);
+
+		expect(tokens.join("")).toBe(source);
+	});
+
+	it("should yield the complete tokens of a line before it ends", async () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CIdentifier(transpiler), new CString(transpiler));
+
+		// The number of tokens yielded when each chunk is read.
+		const tokens: string[] = [];
+		const progress: number[] = [];
+		async function* source(): AsyncGenerator<string> {
+			for (const chunk of ["ab cd", " ef 'g", " h' ij"]) {
+				progress.push(tokens.length);
+				yield chunk;
+			}
+		}
+
+		for await (const token of transpiler.lexer.stream(source())) tokens.push(token.total);
+
+		expect(tokens).toEqual(["ab", "cd", "ef", "'g h'", "ij"]);
+		expect(progress).toEqual([0, 1, 2]);
+	});
+
+	it("should read from streams", async () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CIdentifier(transpiler));
+
+		const stream = new ReadableStream<string>({
+			start(controller) {
+				controller.enqueue("ab c");
+				controller.enqueue("d\nef");
+				controller.close();
+			},
+		});
+
+		const tokens: string[] = [];
+		for await (const token of transpiler.lexer.stream(stream)) tokens.push(describe(token));
+
+		expect(tokens).toEqual(["test:identifier:1:1:2:ab", "test:identifier:1:4:5:cd", "test:identifier:2:1:8:ef"]);
+	});
+});
+
+describe("Lexer limits", () => {
+	it("should stop at the limits", () => {
+		const limited = (limits: LexerLimits, source: string) => {
+			const transpiler = new TRS(undefined, limits);
+			transpiler.declare(new CGroup(transpiler), new CIdentifier(transpiler));
+			return { tokens: lex(transpiler, source), errors: transpiler.diagnostics.errors };
+		};
+
+		const input = limited({ input: 4 }, "a b c");
+		expect(input.tokens).toEqual([]);
+		expect(input.errors.map((d) => d.code)).toEqual([DiagnosticCode.LimitExceeded]);
+
+		const tokens = limited({ tokens: 2 }, "a b c");
+		expect(tokens.tokens).toEqual(["test:identifier:a", "test:identifier:b"]);
+		expect(tokens.errors[0].range?.start.offset).toBe(4);
+
+		const depth = limited({ depth: 1 }, "a g((x)) g(((x)))");
+		expect(depth.tokens).toEqual(["test:identifier:a", "test:group:g((x))"]);
+		expect(depth.errors[0].range?.start.offset).toBe(12);
+	});
+
+	it("should stop when aborted", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CIdentifier(transpiler));
+
+		const controller = new AbortController();
+		const tokens: string[] = [];
+		for (const token of transpiler.lexer.tokenize("a b c", undefined, { signal: controller.signal })) {
+			tokens.push(token.total);
+			controller.abort();
+		}
+
+		expect(tokens).toEqual(["a"]);
+		expect(transpiler.diagnostics.errors.map((d) => d.code)).toEqual([DiagnosticCode.Aborted]);
+	});
+});
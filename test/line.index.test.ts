@@ -0,0 +1,45 @@
+import { describe, it, expect } from "bun:test";
+
+import { LineIndex } from "../src/";
+
+describe("LineIndex", () => {
+	it("should locate offsets in lines ending with \\n and \\r\\n", () => {
+		const index = new LineIndex("ab\r\ncd\nef");
+
+		expect(index.lines).toBe(3);
+		expect(index.locate(0)).toEqual({ offset: 0, line: 1, column: 1 });
+		expect(index.locate(2)).toEqual({ offset: 2, line: 1, column: 3 });
+		expect(index.locate(4)).toEqual({ offset: 4, line: 2, column: 1 });
+		expect(index.locate(8)).toEqual({ offset: 8, line: 3, column: 2 });
+	});
+
+	it("should count columns in code points when asked", () => {
+		const index = new LineIndex("x\n😀😀y");
+
+		expect(index.locate(6).column).toBe(5);
+		expect(index.locate(6, true).column).toBe(3);
+	});
+
+	it("should convert lines and columns back into offsets", () => {
+		const index = new LineIndex("ab\ncd");
+
+		expect(index.offset(2, 2)).toBe(4);
+		expect(index.offset(9, 9)).toBe(5);
+	});
+
+	it("should reuse the index of the same source", () => {
+		const source = "a\nb";
+
+		expect(LineIndex.of(source)).toBe(LineIndex.of(source));
+		expect(LineIndex.of(source)).not.toBe(LineIndex.of(`${source}\n`));
+	});
+
+	it("should keep the indexes of several sources", () => {
+		const outer = "a[b\nc]";
+		const inner = "b\nc";
+		const index = LineIndex.of(outer);
+
+		expect(LineIndex.of(inner)).not.toBe(index);
+		expect(LineIndex.of(outer)).toBe(index);
+	});
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect } from "bun:test";
+
+import {
+	type Patterns,
+	type Token,
+	BaseTranspiler,
+	BaseCompetence,
+	BinaryNode,
+	OperandNode,
+	Registry,
+	Schema,
+	SchemaNotFoundError,
+	Node,
+} from "../src/";
+
+class Literal extends Node<"literal", string> {
+	constructor(value: string) {
+		super("literal", value);
+	}
+
+	public serialize(): string {
+		return this.value;
+	}
+}
+
+class CLiteral extends BaseCompetence<TRS> {
+	public readonly identifier = "test:literal";
+	public readonly patterns: Patterns = {
+		foremost: /[a-z]+/,
+	};
+
+	resolve({ total }: Token<TRS>): Node<string, unknown> {
+		return new Literal(total);
+	}
+}
+
+class TRS extends BaseTranspiler {
+	constructor() {
+		super({ schemas: { literal: new Schema("literal", "string") } });
+	}
+
+	public transpile(source: string): string {
+		return [...this.synthesize(this.tokenize(source))].map((n) => n.serialize()).join("");
+	}
+}
+
+describe("Node location", () => {
+	it("should be populated from the token", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CLiteral(transpiler));
+
+		const [, node] = transpiler.synthesize(transpiler.tokenize("one\n  two", "main.dsl"));
+
+		expect(node.location).toEqual({
+			start: { offset: 6, line: 2, column: 3 },
+			end: { offset: 9, line: 2, column: 6 },
+			file: "main.dsl",
+		});
+	});
+
+	it("should be preserved through clone", () => {
+		const node = new Literal("one");
+		node.location = {
+			start: { offset: 0, line: 1, column: 1 },
+			end: { offset: 3, line: 1, column: 4 },
+		};
+
+		expect(node.clone().location).toEqual(node.location);
+	});
+});
+
+describe("Node clone", () => {
+	class Scoped extends Node<"scoped", Node<string, unknown>[]> {
+		public names = new Set<string>();
+
+		constructor(value: Node<string, unknown>[]) {
+			super("scoped", value);
+		}
+
+		public override clone(): this {
+			const clone = super.clone();
+			clone.names = new Set(this.names);
+			return clone;
+		}
+	}
+
+	it("should keep the class of the node", () => {
+		const clone = new Literal("one").clone();
+
+		expect(clone).toBeInstanceOf(Literal);
+		expect(clone.serialize()).toBe("one");
+	});
+
+	it("should deeply copy the nodes, arrays and plain objects of the value", () => {
+		const literal = new Literal("a");
+		const original = new Node("tree", { list: [literal], nested: { node: literal }, count: 1 });
+		const clone = original.clone();
+
+		expect(clone.value).toEqual(original.value);
+		expect(clone.value.list).not.toBe(original.value.list);
+		expect(clone.value.list[0]).not.toBe(literal);
+		expect(clone.value.list[0]).toBeInstanceOf(Literal);
+		expect(clone.value.nested.node).not.toBe(literal);
+
+		clone.value.list.push(new Literal("b"));
+		expect(original.value.list.length).toBe(1);
+	});
+
+	it("should let subclasses clone their own state", () => {
+		const original = new Scoped([new Literal("a")]);
+		original.names.add("x");
+
+		const clone = original.clone();
+		clone.names.add("y");
+
+		expect(clone).toBeInstanceOf(Scoped);
+		expect([...original.names]).toEqual(["x"]);
+		expect([...clone.names]).toEqual(["x", "y"]);
+		expect(clone.value[0]).not.toBe(original.value[0]);
+	});
+});
+
+describe("Node children", () => {
+	it("should be found in the value, its arrays and its plain objects", () => {
+		const [a, b, c] = [new Literal("a"), new Literal("b"), new Literal("c")];
+
+		expect(new Node("one", a).children).toEqual([a]);
+		expect(new Node("many", [a, "x", [b]]).children).toEqual([a, b]);
+		expect(new Node("named", { left: a, right: { nested: c }, other: 1 }).children).toEqual([a, c]);
+		expect(a.children).toEqual([]);
+	});
+
+	it("should be replaced in a copy that keeps the class", () => {
+		const [a, b] = [new Literal("a"), new Literal("b")];
+		const original = new Node("named", { left: a, list: [a, b] });
+
+		const copy = original.rebuild((child) => (child === a ? [new Literal("x")] : []));
+		expect(copy.value).toEqual({ left: new Literal("x"), list: [new Literal("x")] });
+		expect(original.value.list).toEqual([a, b]);
+
+		const updated = a.update("z");
+		expect(updated).toBeInstanceOf(Literal);
+		expect(updated.serialize()).toBe("z");
+		expect(a.value).toBe("a");
+	});
+
+	it("should only be replaced with several nodes within arrays", () => {
+		const a = new Literal("a");
+
+		expect(() => new Node("one", a).rebuild(() => [a, a])).toThrow();
+		expect(new Node("many", [a]).rebuild(() => [a, a]).value).toEqual([a, a]);
+	});
+});
+
+describe("Node JSON", () => {
+	/**
+	 * Creates a registry for literals and binary expressions of operands.
+	 */
+	function registry(): Registry<string> {
+		return new Registry({
+			literal: new Schema("literal", "string"),
+			binary: new Schema("binary", { operator: "string", left: Node, right: Node }),
+		})
+			.bind("literal", Literal)
+			.bind("binary", BinaryNode)
+			.bind("operand", OperandNode);
+	}
+
+	it("should include the type, value, location and children", () => {
+		const node = new BinaryNode("+", new OperandNode("a"), new Literal("b"));
+		node.location = {
+			start: { offset: 0, line: 1, column: 1 },
+			end: { offset: 5, line: 1, column: 6 },
+		};
+
+		expect(JSON.parse(JSON.stringify(node))).toEqual({
+			type: "binary",
+			value: { operator: "+", left: { $child: 0 }, right: { $child: 1 } },
+			location: node.location,
+			children: [
+				{ type: "operand", value: "a" },
+				{ type: "literal", value: "b" },
+			],
+		});
+	});
+
+	it("should revive the nodes into their classes", () => {
+		const original = new BinaryNode(
+			"*",
+			new OperandNode("a"),
+			new BinaryNode("+", new Literal("b"), new OperandNode("c")),
+		);
+		original.value.left.location = {
+			start: { offset: 0, line: 1, column: 1 },
+			end: { offset: 1, line: 1, column: 2 },
+		};
+
+		const revived = registry().revive(JSON.parse(JSON.stringify(original)));
+
+		expect(revived).toBeInstanceOf(BinaryNode);
+		expect(revived).toEqual(original);
+		expect(revived.serialize()).toBe("a * b + c");
+		expect(
+			registry()
+				.revive([original.toJSON(), new Literal("d").toJSON()])
+				.map((n) => n.serialize()),
+		).toEqual(["a * b + c", "d"]);
+	});
+
+	it("should validate the revived nodes against their schemas", () => {
+		expect(() => registry().revive({ type: "literal", value: 1 })).toThrow(
+			'Node of type "literal" failed validation.',
+		);
+		expect(() => registry().revive({ type: "unknown", value: 1 })).toThrow(SchemaNotFoundError);
+	});
+});
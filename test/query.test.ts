@@ -0,0 +1,107 @@
+import { describe, it, expect } from "bun:test";
+
+import { Node, Selector, SelectorSyntaxError, query, transform } from "../src/";
+
+/**
+ * Creates a call node.
+ */
+function call(
+	name: string,
+	...args: Node<string, unknown>[]
+): Node<"call", { name: string; args: Node<string, unknown>[] }> {
+	return new Node("call", { name, args });
+}
+
+/**
+ * Creates a tree with a couple of functions calling others.
+ */
+function program(): Node<"program", Node<string, unknown>[]> {
+	return new Node("program", [
+		call("fetch", new Node("string", "/top")),
+		new Node("function", {
+			name: "load",
+			async: true,
+			body: [
+				call("fetch", new Node("string", "/a")),
+				call("log", call("fetch", new Node("string", "/b"))),
+			],
+		}),
+		new Node("function", { name: "noop", async: false, body: [] }),
+	]);
+}
+
+describe("Selector", () => {
+	it("should match nodes by type and attribute", () => {
+		const tree = program();
+
+		expect(
+			query(tree, "function").map(({ node }) => (node.value as { name: string }).name),
+		).toEqual(["load", "noop"]);
+		expect(query(tree, 'call[name="fetch"]').length).toBe(3);
+		expect(query(tree, "function[async=true]").length).toBe(1);
+		expect(query(tree, "*[name^=lo]").length).toBe(2);
+		expect(query(tree, "string[value=/^\\/[ab]$/]").map(({ node }) => node.value)).toEqual([
+			"/a",
+			"/b",
+		]);
+		expect(query(tree, "[async]").length).toBe(2);
+	});
+
+	it("should match nodes by their ancestors", () => {
+		const tree = program();
+
+		expect(query(tree, 'function call[name="fetch"]').length).toBe(2);
+		expect(query(tree, 'function > call[name="fetch"]').length).toBe(1);
+		expect(query(tree, "program > call string").map(({ node }) => node.value)).toEqual(["/top"]);
+		expect(query(tree, 'call[name="log"] > call, function[name=noop]').length).toBe(2);
+	});
+
+	it("should return the paths of the matching nodes", () => {
+		const [path] = query(program(), 'call[name="log"] string');
+
+		expect(path.node.value).toBe("/b");
+		expect(path.depth).toBe(4);
+		expect(path.parent?.node.type).toBe("call");
+		expect(Selector.parse("function").first(program())?.parent?.node.type).toBe("program");
+	});
+
+	it("should be usable from visitors", () => {
+		const selector = Selector.parse("function call[name=fetch]");
+		const result = transform(program(), {
+			call: (path) => {
+				if (selector.matches(path))
+					path.replace(
+						call("request", ...(path.node.value as { args: Node<string, unknown>[] }).args),
+					);
+			},
+		});
+
+		expect(query(result as Node<string, unknown>, "call[name=request]").length).toBe(2);
+		expect(query(result as Node<string, unknown>, "call[name=fetch]").length).toBe(1);
+	});
+
+	it("should report malformed selectors", () => {
+		expect(() => Selector.parse("call[name=")).toThrow(SelectorSyntaxError);
+		expect(() => Selector.parse("call >")).toThrow("Expected a type or an attribute at position 6");
+		expect(() => Selector.parse("call)")).toThrow(SelectorSyntaxError);
+		expect(() => Selector.parse("call[name=/(/]")).toThrow(SelectorSyntaxError);
+	});
+
+	it("should parse numbers with leading zeros", () => {
+		const tree = new Node("list", [new Node("item", { x: 1 }), new Node("item", { x: 10 })]);
+
+		expect(query(tree, "item[x=01]").map(({ node }) => node.value)).toEqual([{ x: 1 }]);
+		expect(query(tree, "item[x=-0.50]").length).toBe(0);
+	});
+
+	it("should match regular expressions the same way every time", () => {
+		const selector = Selector.parse("call[name=/fetch/i]");
+		const tree = program();
+
+		expect([1, 2, 3].map(() => selector.all(tree).length)).toEqual([3, 3, 3]);
+		expect(() => Selector.parse("call[name=/fetch/g]")).toThrow(
+			'Regular expressions cannot have the "g" or "y" flags at position 17',
+		);
+		expect(() => Selector.parse("call[name=/fetch/y]")).toThrow(SelectorSyntaxError);
+	});
+});
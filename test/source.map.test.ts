@@ -0,0 +1,127 @@
+import { describe, it, expect } from "bun:test";
+
+import {
+	type Patterns,
+	type Token,
+	BaseTranspiler,
+	BaseCompetence,
+	type CodeWriter,
+	Schema,
+	SourceMap,
+	Node,
+	vlq,
+} from "../src/";
+
+class Call extends Node<"call", string> {
+	constructor(value: string) {
+		super("call", value);
+	}
+
+	public serialize(): string {
+		return `${this.value}();`;
+	}
+}
+
+class Pair extends Node<"pair", Node<string, unknown>[]> {
+	constructor(value: Node<string, unknown>[]) {
+		super("pair", value);
+	}
+
+	public override emit(writer: CodeWriter): void {
+		writer.join(this.value, " ");
+	}
+}
+
+class CCall extends BaseCompetence<TRS> {
+	public readonly identifier = "test:call";
+	public readonly patterns: Patterns = {
+		foremost: /\$[a-z]+/,
+	};
+
+	resolve({ total }: Token<TRS>): Node<string, unknown> {
+		return new Call(total.slice(1));
+	}
+}
+
+class TRS extends BaseTranspiler {
+	constructor() {
+		super({
+			schemas: { call: new Schema("call", "string"), pair: new Schema("pair", [Node]) },
+		});
+	}
+
+	public transpile(source: string): string {
+		return this.generate(source).code;
+	}
+
+	public generate(source: string) {
+		const nodes = this.synthesize(this.tokenize(source));
+		return this.registry.generate(nodes, { source: "main.dsl", content: source, file: "main.js" });
+	}
+}
+
+describe("vlq", () => {
+	it("should encode integers", () => {
+		expect(vlq(0)).toBe("A");
+		expect(vlq(1)).toBe("C");
+		expect(vlq(-1)).toBe("D");
+		expect(vlq(15)).toBe("e");
+		expect(vlq(16)).toBe("gB");
+		expect(vlq(-500)).toBe("pf");
+	});
+});
+
+describe("SourceMap", () => {
+	it("should encode mappings relative to each other", () => {
+		const map = new SourceMap("out.js");
+		map.addMapping({ generated: { line: 1, column: 1 }, original: { line: 1, column: 1 }, source: "a" });
+		map.addMapping({ generated: { line: 1, column: 5 }, original: { line: 2, column: 3 }, source: "a" });
+		map.addMapping({ generated: { line: 3, column: 2 }, original: { line: 1, column: 1 }, source: "a" });
+
+		expect(map.toJSON()).toEqual({
+			version: 3,
+			file: "out.js",
+			sources: ["a"],
+			sourcesContent: [null],
+			names: [],
+			mappings: "AAAA,IACE;;CADF",
+		});
+	});
+});
+
+describe("source map generation", () => {
+	it("should map the generated code back to the source", () => {
+		const transpiler = new TRS();
+		transpiler.declare(new CCall(transpiler));
+
+		const source = "$one\n  $two";
+		const { code, map } = transpiler.generate(source);
+
+		expect(code).toBe("one();\ntwo();");
+		expect(map.toJSON()).toEqual({
+			version: 3,
+			file: "main.js",
+			sources: ["main.dsl"],
+			sourcesContent: [source],
+			names: [],
+			mappings: "AAAA;AACE",
+		});
+	});
+
+	it("should map the nodes within the generated nodes", () => {
+		const transpiler = new TRS();
+
+		// Locates a node at a column of the first line.
+		const at = <N extends Node<string, unknown>>(node: N, column: number): N => {
+			const start = { offset: column - 1, line: 1, column };
+			node.location = { start, end: start };
+			return node;
+		};
+
+		const pair = at(new Pair([at(new Call("a"), 2), at(new Call("b"), 6)]), 1);
+		const { code, map } = transpiler.registry.generate([pair], { source: "main.dsl" });
+
+		expect(code).toBe("a(); b();");
+		expect(map.toJSON().mappings).toBe("AAAA,AAAC,KAAI");
+	});
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, spyOn } from "bun:test";
+
+import {
+	type Nesting,
+	type Patterns,
+	type Token,
+	BaseTranspiler,
+	BaseCompetence,
+	DiagnosticCode,
+	type LexerLimits,
+	Lexer,
+	LexerOptions,
+	LexicalFlags,
+	Node,
+} from "../src/";
+
+class CScan extends BaseCompetence<TRS> {
+	public readonly identifier = "test:scan";
+	public readonly patterns: Patterns;
+	public readonly flags?: LexicalFlags;
+
+	constructor(transpiler: TRS, patterns: Patterns, flags?: LexicalFlags) {
+		super(transpiler);
+		this.patterns = patterns;
+		this.flags = flags;
+	}
+
+	resolve({ total }: Token<TRS>): Node<string, unknown> {
+		return new Node("scan", total);
+	}
+}
+
+class CCall extends BaseCompetence<TRS> {
+	public readonly identifier = "test:call";
+	public readonly patterns: Patterns = { foremost: /\$[a-z]+/, opener: /\[/, closer: /\]/ };
+	public readonly nesting: Nesting<TRS> = { delimiter: ";" };
+
+	resolve({ total }: Token<TRS>): Node<string, unknown> {
+		return new Node("call", total);
+	}
+}
+
+class CNumber extends BaseCompetence<TRS> {
+	public readonly identifier = "test:number";
+	public readonly patterns: Patterns = { foremost: /\d+/ };
+
+	resolve({ total }: Token<TRS>): Node<string, unknown> {
+		return new Node("number", total);
+	}
+}
+
+class TRS extends BaseTranspiler {
+	public transpile(): string {
+		return "";
+	}
+}
+
+/**
+ * Tokenizes the source with a single competence, returning the first token.
+ */
+function scan(source: string, patterns: Patterns, flags?: LexicalFlags): Token<TRS> {
+	const transpiler = new TRS();
+	transpiler.declare(new CScan(transpiler, patterns, flags));
+	const [token] = transpiler.lexer.tokenize(source);
+	return token;
+}
+
+describe("Token inside scanning", () => {
+	it("should match multi-character openers and closers with nesting", () => {
+		const token = scan("link[[a [[b]] c]] rest", {
+			foremost: /link/,
+			opener: /\[\[/,
+			closer: /\]\]/,
+		});
+
+		expect(token.inside).toBe("a [[b]] c");
+		expect(token.total).toBe("link[[a [[b]] c]]");
+		expect(token.end).toBe(17);
+	});
+
+	it("should match multi-character inside patterns", () => {
+		const token = scan(String.raw`str<<a\>>> x`, {
+			foremost: /str/,
+			opener: /<</,
+			inside: /\\[\s\S]|[^\\]/,
+			closer: />>/,
+		});
+
+		expect(token.inside).toBe(String.raw`a\>`);
+	});
+
+	it("should keep the flags working", () => {
+		const direct = scan("{% a %} b", { foremost: /\{%/, closer: /%\}/ }, LexicalFlags.DIRECT_ENTRY);
+		expect(direct.inside).toBe(" a ");
+
+		const unstoppable = scan(
+			"f(a-b)",
+			{ foremost: /f/, opener: /\(/, inside: /[a-z]/, closer: /\)/ },
+			LexicalFlags.UNSTOPPABLE,
+		);
+		expect(unstoppable.inside).toBe("ab");
+
+		const stopped = scan("f(a-b)", { foremost: /f/, opener: /\(/, inside: /[a-z]/, closer: /\)/ });
+		expect(stopped.inside).toBe("a");
+	});
+
+	it("should skip quoted and escaped delimiters", () => {
+		const token = scan(String.raw`fn(")";x\)) y`, {
+			foremost: /fn/,
+			opener: /\(/,
+			closer: /\)/,
+			quotes: [['"', '"']],
+			escape: "\\",
+		});
+
+		expect(token.inside).toBe(String.raw`")";x\)`);
+	});
+
+	it("should include empty parameters in the total", () => {
+		expect(scan("f() g", { foremost: /f/, opener: /\(/, closer: /\)/ }).total).toBe("f()");
+	});
+});
+
+describe("Token open insides", () => {
+	it("should know when the inside reaches the end of the input", () => {
+		const patterns = { foremost: /f/, opener: /\(/, closer: /\)/ };
+
+		expect(scan("f(a", patterns).open).toBe(true);
+		expect(scan("f(a)", patterns).open).toBe(false);
+	});
+
+	it("should report insides that are never closed", () => {
+		const transpiler = new TRS();
+		transpiler.declare(
+			new CScan(transpiler, { foremost: /fn/, opener: /\(/, closer: /\)/, quotes: [['"', '"']] }),
+		);
+
+		const tokens = [...transpiler.lexer.tokenize('fn(")\nfn(a)\nfn(b)')];
+		const [error] = transpiler.diagnostics.errors;
+
+		expect(tokens).toHaveLength(1);
+		expect(tokens[0].open).toBe(true);
+		expect(error.code).toBe(DiagnosticCode.UnbalancedDelimiter);
+		expect(error.range?.end.offset).toBe(3);
+	});
+});
+
+describe("Token children", () => {
+	/**
+	 * Tokenizes the source with calls whose arguments are nested, returning the first token.
+	 */
+	function call(source: string, limits?: LexerLimits): [Token<TRS>, TRS] {
+		const transpiler = new TRS({ lexer: new Lexer({ limits }) });
+		transpiler.declare(new CCall(transpiler), new CNumber(transpiler));
+		const [token] = transpiler.lexer.tokenize(source);
+		return [token, transpiler];
+	}
+
+	it("should tokenize the inside into arguments", () => {
+		const [token] = call("$add[$sub[1;2];3]");
+
+		expect(token.children?.map((child) => child.total)).toEqual(["$sub[1;2]", "3"]);
+		expect(token.arguments?.map((argument) => argument.map((child) => child.total))).toEqual([
+			["$sub[1;2]"],
+			["3"],
+		]);
+		expect(token.arguments?.[0][0].arguments?.map((argument) => argument[0].total)).toEqual([
+			"1",
+			"2",
+		]);
+	});
+
+	it("should locate the child tokens in the whole source", () => {
+		const [token] = call("$add[\n  $sub[1;\n 22];3]");
+		const [sub, three] = token.children ?? [];
+		const two = sub.arguments?.[1][0];
+
+		expect(sub.range.start).toEqual({ offset: 8, line: 2, column: 3 });
+		expect(two?.range.start).toEqual({ offset: 17, line: 3, column: 2 });
+		expect(three.range.start.offset).toBe(21);
+	});
+
+	it("should report the diagnostics of the inside at their absolute positions", () => {
+		const [token, transpiler] = call("$add[1;\n2]", { tokens: 1 });
+
+		expect(token.children?.length).toBe(1);
+		expect(transpiler.diagnostics.errors[0].code).toBe(DiagnosticCode.LimitExceeded);
+		expect(transpiler.diagnostics.errors[0].range?.start).toEqual({
+			offset: 8,
+			line: 2,
+			column: 1,
+		});
+	});
+
+	it("should report the diagnostics of the inside with the whole source", () => {
+		const source = "$add[1;\n2]";
+		const transpiler = new TRS({ lexer: new Lexer({ limits: { tokens: 1 } }) });
+		transpiler.declare(new CCall(transpiler), new CNumber(transpiler));
+		const report = spyOn(transpiler.diagnostics, "report");
+
+		const [token] = transpiler.lexer.tokenize(source);
+		expect(token.children?.length).toBe(1);
+		expect(report).toHaveBeenCalledWith(transpiler.diagnostics.errors[0], source);
+	});
+
+	it("should not have children when the competence does not nest", () => {
+		expect(scan("f(1)", { foremost: /f/, opener: /\(/, closer: /\)/ }).children).toBeUndefined();
+	});
+
+	it("should count the columns in code points when configured", () => {
+		const transpiler = new TRS({ lexer: new Lexer({ options: LexerOptions.CodePointColumns }) });
+		transpiler.declare(new CCall(transpiler), new CNumber(transpiler));
+		const [token] = transpiler.lexer.tokenize("😀$a[😀;3]");
+
+		expect(token.column).toBe(2);
+		expect(token.range.end.column).toBe(9);
+		expect(token.children?.[0].column).toBe(7);
+	});
+});
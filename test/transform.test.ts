@@ -0,0 +1,103 @@
+import { describe, it, expect } from "bun:test";
+
+import { BinaryNode, Node, OperandNode, transform } from "../src/";
+
+class Program extends Node<"program", Node<string, unknown>[]> {
+	constructor(value: Node<string, unknown>[]) {
+		super("program", value);
+	}
+
+	public override serialize(): string {
+		return this.value.map((node) => node.serialize()).join("; ");
+	}
+}
+
+class Comment extends Node<"comment", string> {
+	constructor(value: string) {
+		super("comment", value);
+	}
+}
+
+/**
+ * Creates a program with a comment and a couple of expressions.
+ */
+function program(): Program {
+	return new Program([
+		new Comment("note"),
+		new BinaryNode("+", new OperandNode("1"), new OperandNode("x")),
+		new BinaryNode(
+			"*",
+			new OperandNode("2"),
+			new BinaryNode("+", new OperandNode("3"), new OperandNode("4")),
+		),
+	]);
+}
+
+describe("transform", () => {
+	it("should return a new tree without changing the original", () => {
+		const original = program();
+		const result = transform(original, {
+			comment: (path) => path.remove(),
+			operand: { leave: (path) => path.replace(new OperandNode(`${path.node.value}0`)) },
+		});
+
+		expect(result).toBeInstanceOf(Program);
+		expect(result?.serialize()).toBe("10 + x0; 20 * 30 + 40");
+		expect(original.serialize()).toBe("UNIMPLEMENTED; 1 + x; 2 * 3 + 4");
+	});
+
+	it("should share the subtrees that do not change", () => {
+		const original = program();
+		const result = transform(original, {
+			binary: (path) => {
+				if (path.node === original.value[1]) path.replace(new OperandNode("sum"));
+			},
+		}) as Program;
+
+		expect(result.value[2]).toBe(original.value[2]);
+		expect(result.value[1].serialize()).toBe("sum");
+		expect(transform(original, {})).toBe(original);
+	});
+
+	it("should insert siblings and skip children", () => {
+		const visited: string[] = [];
+		const result = transform(program(), {
+			"*": (path) => {
+				visited.push(path.node.type);
+			},
+			comment: (path) => {
+				path.insertBefore(new Comment("first"));
+				path.insertAfter(new Comment("last"));
+			},
+			binary: (path) => {
+				if (path.depth === 1) path.skip();
+			},
+		}) as Program;
+
+		expect(result.value.map((node) => node.type)).toEqual([
+			"comment",
+			"comment",
+			"comment",
+			"binary",
+			"binary",
+		]);
+		expect(result.value.slice(0, 3).map((node) => node.value)).toEqual(["first", "note", "last"]);
+		expect(visited).toEqual(["program", "comment", "binary", "binary"]);
+	});
+
+	it("should call the leave callbacks with the rebuilt node", () => {
+		const sums: string[] = [];
+		transform(program(), {
+			operand: (path) => path.replace(new OperandNode("n")),
+			binary: { leave: (path) => void sums.push(path.node.serialize()) },
+		});
+
+		expect(sums).toEqual(["n + n", "n + n", "n * n + n"]);
+	});
+
+	it("should not replace the nodes outside arrays with several nodes", () => {
+		expect(() =>
+			transform(program(), { operand: (path) => path.insertAfter(new OperandNode("y")) }),
+		).toThrow();
+	});
+});